@@ -0,0 +1,172 @@
+// Local stand-in for the Bitfin price server, implementing POST /api/tickers/historical-prices/date.
+//
+// Usage:
+//   npm run mock:prices                          # synthetic prices derived from the trades in public/
+//   npm run mock:prices -- --file prices.json    # serve a JSON/CSV price file instead
+//
+// Then start the dashboard with VITE_PRICE_API_URL=http://localhost:8787 (see .env.example).
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+const PORT = Number(process.env.PORT || 8787);
+const MAX_LOOKBACK_DAYS = 7;
+
+function readArgument(name) {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function addPoint(series, symbol, date, price) {
+  const value = Number(price);
+  if (typeof symbol !== 'string' || typeof date !== 'string' || !isFinite(value) || value <= 0) {
+    return;
+  }
+
+  const key = symbol.trim().toUpperCase();
+  series[key] = series[key] || [];
+  series[key].push({ date: date.trim(), price: value });
+}
+
+// Same formats as the dashboard's file provider (src/lib/priceProviders.ts); CSV without quoted fields
+function loadPriceFile(path) {
+  const content = readFileSync(path, 'utf8')
+    .replace(/^\uFEFF/, '')
+    .trim();
+  const series = {};
+
+  if (content.startsWith('[') || content.startsWith('{')) {
+    const data = JSON.parse(content);
+    if (Array.isArray(data)) {
+      data.forEach(point => addPoint(series, point?.symbol, point?.date, point?.price));
+    } else {
+      for (const [symbol, prices] of Object.entries(data)) {
+        for (const [date, price] of Object.entries(prices)) {
+          addPoint(series, symbol, date, price);
+        }
+      }
+    }
+  } else {
+    const [headerLine, ...lines] = content.split(/\r?\n/);
+    const delimiter = headerLine.includes(';') ? ';' : headerLine.includes('\t') ? '\t' : ',';
+    const headers = headerLine.split(delimiter).map(header => header.trim().toLowerCase());
+    const symbolColumn = headers.findIndex(header => header === 'symbol' || header === 'ticker');
+    const dateColumn = headers.indexOf('date');
+    const priceColumn = headers.findIndex(header => header === 'price' || header === 'close');
+
+    for (const line of lines) {
+      const cells = line.split(delimiter);
+      addPoint(series, cells[symbolColumn], cells[dateColumn], cells[priceColumn]);
+    }
+  }
+
+  return series;
+}
+
+function toIsoDate(seconds) {
+  return new Date(seconds * 1000).toISOString().substring(0, 10);
+}
+
+// Execution prices from the Firestore dumps become the price history of every traded ticker
+function loadTradePrices() {
+  const series = {};
+
+  for (const file of ['transaction_portfolio.json', 'closed_transactions.json']) {
+    const records = JSON.parse(readFileSync(resolve('public', file), 'utf8'));
+    for (const record of records) {
+      if (record?.created_time?._seconds) {
+        addPoint(series, record.ticker, toIsoDate(record.created_time._seconds), record.price);
+      }
+    }
+  }
+
+  return series;
+}
+
+// Deterministic ±5% wobble so month-end prices differ from the last execution without being random per request
+function wobble(symbol, date) {
+  let hash = 0;
+  for (const char of `${symbol}|${date}`) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return 1 + ((Math.abs(hash) % 1000) / 1000 - 0.5) * 0.1;
+}
+
+const priceFile = readArgument('--file');
+const series = priceFile ? loadPriceFile(priceFile) : loadTradePrices();
+
+for (const points of Object.values(series)) {
+  points.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function findPrice(symbol, date) {
+  const points = series[symbol.toUpperCase()];
+  if (!points) {
+    return 0;
+  }
+
+  if (!priceFile) {
+    // Synthetic mode: last execution price on or before the date (the first one before the ticker was traded)
+    const previous = points.filter(point => point.date <= date).pop() || points[0];
+    return Math.round(previous.price * wobble(symbol, date) * 10000) / 10000;
+  }
+
+  const earliest = new Date(`${date}T00:00:00Z`);
+  earliest.setUTCDate(earliest.getUTCDate() - MAX_LOOKBACK_DAYS);
+  const previous = points.filter(point => point.date <= date).pop();
+
+  return previous && previous.date >= earliest.toISOString().substring(0, 10) ? previous.price : 0;
+}
+
+function sendJson(response, status, body) {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  });
+  response.end(JSON.stringify(body));
+}
+
+const server = createServer((request, response) => {
+  if (request.method === 'OPTIONS') {
+    sendJson(response, 204, {});
+    return;
+  }
+
+  if (request.method !== 'POST' || request.url !== '/api/tickers/historical-prices/date') {
+    sendJson(response, 404, { success: false, error: 'Not found' });
+    return;
+  }
+
+  let body = '';
+  request.on('data', chunk => {
+    body += chunk;
+  });
+  request.on('end', () => {
+    let payload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      sendJson(response, 400, { success: false, error: 'Invalid JSON body' });
+      return;
+    }
+
+    if (!Array.isArray(payload?.symbols) || !/^\d{4}-\d{2}-\d{2}$/.test(payload?.date || '')) {
+      sendJson(response, 400, { success: false, error: 'Expected { symbols: [{ symbol, type }], date: YYYY-MM-DD }' });
+      return;
+    }
+
+    const data = payload.symbols.map(({ symbol, type }) => {
+      const price = findPrice(String(symbol), payload.date);
+      return { symbol, type, date: payload.date, price, priceFound: price > 0 };
+    });
+
+    sendJson(response, 200, { success: true, data });
+  });
+});
+
+server.listen(PORT, () => {
+  const source = priceFile ? `price file ${priceFile}` : 'synthetic prices from public/*.json';
+  console.log(`Mock price server listening on http://localhost:${PORT} (${source})`);
+});
@@ -0,0 +1,225 @@
+import { useMemo, useState } from 'react';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Cell,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  Treemap,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CumulativePnLPoint } from '@/types/trade';
+import { OpenPosition } from '@/lib/tradeCalculations';
+import {
+  ALLOCATION_GROUPS,
+  AllocationGroup,
+  calculateAllocation,
+  calculateAllocationHistory,
+  getAllocationColor,
+} from '@/lib/allocation';
+
+interface AllocationPanelProps {
+  positions: OpenPosition[];
+  entryAllocations: { [positionKey: string]: number };
+  points: CumulativePnLPoint[];
+}
+
+const formatCurrency = (value: number) =>
+  `USD $${new Intl.NumberFormat('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value)}`;
+
+const formatPercentage = (value: number) => `${value.toFixed(1)}%`;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+
+const tooltipStyle = {
+  backgroundColor: 'hsl(var(--popover))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '12px',
+  color: 'hsl(var(--foreground))',
+};
+
+interface TreemapCellProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  name?: string;
+  color?: string;
+  weight?: number;
+}
+
+function TreemapCell({ x, y, width, height, name, color, weight }: TreemapCellProps) {
+  if (!color) {
+    return null;
+  }
+
+  return (
+    <g>
+      <rect x={x} y={y} width={width} height={height} fill={color} fillOpacity={0.85} stroke="hsl(var(--card))" />
+      {width > 60 && height > 36 && (
+        <>
+          <text x={x + 8} y={y + 18} fill="hsl(var(--background))" fontSize={12} fontWeight={600}>
+            {name}
+          </text>
+          <text x={x + 8} y={y + 32} fill="hsl(var(--background))" fontSize={11}>
+            {formatPercentage(weight)}
+          </text>
+        </>
+      )}
+    </g>
+  );
+}
+
+export function AllocationPanel({ positions, entryAllocations, points }: AllocationPanelProps) {
+  const [group, setGroup] = useState<AllocationGroup>('assetType');
+
+  const slices = useMemo(
+    () =>
+      calculateAllocation(positions, group, entryAllocations).map((slice, index) => ({
+        ...slice,
+        color: getAllocationColor(slice.name, index),
+      })),
+    [positions, group, entryAllocations],
+  );
+  const history = useMemo(() => calculateAllocationHistory(points, group), [points, group]);
+
+  return (
+    <Card className="border-border bg-card premium-card shadow-premium overflow-hidden">
+      <CardHeader>
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className="text-sm uppercase tracking-wider font-semibold text-muted-foreground">
+              🧩 Asignación
+            </CardTitle>
+            <p className="text-xs text-muted-foreground mt-1">
+              Peso sobre el valor de mercado de las posiciones abiertas (cortos en valor absoluto) • Sin datos de sector
+              en las operaciones
+            </p>
+          </div>
+          <div className="flex items-center gap-1 bg-secondary/50 p-1 rounded-lg border border-border/50">
+            {ALLOCATION_GROUPS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setGroup(option.value)}
+                className={`px-3 py-1.5 text-xs font-semibold rounded-md transition-all duration-300 ${
+                  group === option.value
+                    ? 'bg-success/20 text-success shadow-md border border-success/30'
+                    : 'text-muted-foreground hover:text-foreground hover:bg-card/50'
+                }`}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {slices.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground">Sin posiciones abiertas</p>
+        ) : (
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            <div className="grid grid-cols-1 items-center gap-4 md:grid-cols-2">
+              <ResponsiveContainer width="100%" height={240}>
+                <PieChart>
+                  <Pie
+                    data={slices}
+                    dataKey="marketValue"
+                    nameKey="name"
+                    innerRadius="55%"
+                    outerRadius="90%"
+                    paddingAngle={2}
+                    stroke="hsl(var(--card))"
+                    animationDuration={1200}>
+                    {slices.map(slice => (
+                      <Cell key={slice.name} fill={slice.color} />
+                    ))}
+                  </Pie>
+                  <Tooltip
+                    contentStyle={tooltipStyle}
+                    formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                  />
+                </PieChart>
+              </ResponsiveContainer>
+              <div className="space-y-2">
+                {slices.map(slice => (
+                  <div key={slice.name} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="flex items-center gap-2 text-foreground">
+                      <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: slice.color }} />
+                      {slice.name}
+                    </span>
+                    <span
+                      className="font-semibold text-foreground"
+                      title={
+                        slice.entryAllocation !== undefined
+                          ? `Asignado al abrir: ${formatPercentage(slice.entryAllocation)} del portafolio`
+                          : undefined
+                      }>
+                      {formatPercentage(slice.weight)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <ResponsiveContainer width="100%" height={240}>
+              <Treemap
+                data={slices}
+                dataKey="marketValue"
+                nameKey="name"
+                content={<TreemapCell />}
+                isAnimationActive={false}
+              />
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {/* Weight of every group at each valuation of the equity curve */}
+        {history.rows.length > 0 && (
+          <ResponsiveContainer width="100%" height={240}>
+            <AreaChart data={history.rows}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+              <XAxis
+                dataKey="date"
+                stroke="hsl(var(--muted-foreground))"
+                tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                tickFormatter={formatDate}
+                axisLine={{ stroke: 'hsl(var(--border))' }}
+              />
+              <YAxis
+                stroke="hsl(var(--muted-foreground))"
+                tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                tickFormatter={(value: number) => `${value}%`}
+                domain={[0, 100]}
+                axisLine={{ stroke: 'hsl(var(--border))' }}
+              />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={(value: number, name: string) => [formatPercentage(value), name]}
+                labelFormatter={formatDate}
+              />
+              {history.groups.map((name, index) => (
+                <Area
+                  key={name}
+                  type="monotone"
+                  dataKey={name}
+                  stackId="allocation"
+                  stroke={getAllocationColor(name, index)}
+                  fill={getAllocationColor(name, index)}
+                  fillOpacity={0.6}
+                  animationDuration={1200}
+                />
+              ))}
+            </AreaChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
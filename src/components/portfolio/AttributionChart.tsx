@@ -0,0 +1,126 @@
+import { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CumulativePnLPoint, Trade } from '@/types/trade';
+import { ALLOCATION_GROUPS, AllocationGroup, getAllocationColor } from '@/lib/allocation';
+import { calculateAttribution } from '@/lib/attribution';
+
+interface AttributionChartProps {
+  points: CumulativePnLPoint[];
+  trades: Trade[];
+}
+
+export function AttributionChart({ points, trades }: AttributionChartProps) {
+  const [group, setGroup] = useState<AllocationGroup>('assetType');
+  const attribution = useMemo(() => calculateAttribution(points, trades, group), [points, trades, group]);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const formatMonth = (monthStr: string) => {
+    const [year, month] = monthStr.split('-');
+    const date = new Date(parseInt(year), parseInt(month) - 1);
+    return date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+  };
+
+  return (
+    <Card className="border-border bg-card premium-card shadow-premium overflow-hidden">
+      <CardHeader>
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className="text-sm uppercase tracking-wider font-semibold text-muted-foreground">
+              🧭 Atribución del P&L por Mes
+            </CardTitle>
+            <p className="text-xs text-muted-foreground mt-1">
+              P&L realizado más el cambio del no realizado de cada grupo • Suma el P&L total del mes
+            </p>
+          </div>
+          <div className="flex items-center gap-1 bg-secondary/50 p-1 rounded-lg border border-border/50">
+            {ALLOCATION_GROUPS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setGroup(option.value)}
+                className={`px-3 py-1.5 text-xs font-semibold rounded-md transition-all duration-300 ${
+                  group === option.value
+                    ? 'bg-success/20 text-success shadow-md border border-success/30'
+                    : 'text-muted-foreground hover:text-foreground hover:bg-card/50'
+                }`}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {attribution.rows.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground">
+            Disponible cuando termine la valoración mark-to-market
+          </p>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={320}>
+              <BarChart data={attribution.rows} stackOffset="sign">
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                <XAxis
+                  dataKey="month"
+                  stroke="hsl(var(--muted-foreground))"
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                  tickFormatter={formatMonth}
+                  axisLine={{ stroke: 'hsl(var(--border))' }}
+                />
+                <YAxis
+                  stroke="hsl(var(--muted-foreground))"
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                  tickFormatter={formatCurrency}
+                  axisLine={{ stroke: 'hsl(var(--border))' }}
+                />
+                <ReferenceLine y={0} stroke="hsl(var(--border))" />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--popover))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '12px',
+                    backdropFilter: 'blur(16px)',
+                    boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+                    padding: '12px 16px',
+                  }}
+                  formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                  labelFormatter={(month: string, payload) =>
+                    `${formatMonth(month)} • Total ${formatCurrency(Number(payload?.[0]?.payload.total ?? 0))}`
+                  }
+                  cursor={{ fill: 'rgba(16, 185, 129, 0.1)' }}
+                />
+                {attribution.groups.map((name, index) => (
+                  <Bar
+                    key={name}
+                    dataKey={name}
+                    stackId="attribution"
+                    fill={getAllocationColor(name, index)}
+                    animationDuration={1200}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+            <div className="flex flex-wrap justify-center gap-4 text-xs text-muted-foreground">
+              {attribution.groups.map((name, index) => (
+                <span key={name} className="flex items-center gap-2">
+                  <span
+                    className="h-2.5 w-2.5 rounded-full"
+                    style={{ backgroundColor: getAllocationColor(name, index) }}
+                  />
+                  {name}
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
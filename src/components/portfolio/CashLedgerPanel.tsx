@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Trash2 } from 'lucide-react';
+import { CashMovement } from '@/types/trade';
+import { CASH_MOVEMENT_LABELS, CashSummary } from '@/lib/cashLedger';
+import { ALL_PORTFOLIOS, PortfolioSummary } from '@/lib/tradeCalculations';
+import { TargetPortfolioSelect } from './TargetPortfolioSelect';
+import { toast } from 'sonner';
+
+interface CashLedgerPanelProps {
+  portfolios: PortfolioSummary[];
+  selectedPortfolio: string;
+  movements: CashMovement[];
+  summary: CashSummary;
+  onAdd: (movement: CashMovement) => void;
+  onRemove: (movement: CashMovement) => void;
+}
+
+const EMPTY_FORM = { type: 'deposit' as CashMovement['type'], date: '', amount: '', note: '', portfolioId: '' };
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+
+// <input type="date"> gives YYYY-MM-DD; movements use the MM/DD/YYYY format of trades
+const toTradeDate = (isoDate: string) => {
+  const [year, month, day] = isoDate.split('-');
+  return `${month}/${day}/${year}`;
+};
+
+const sortKey = (date: string) => {
+  const [month, day, year] = date.split('/');
+  return `${year}-${month}-${day}`;
+};
+
+export function CashLedgerPanel({
+  portfolios,
+  selectedPortfolio,
+  movements,
+  summary,
+  onAdd,
+  onRemove,
+}: CashLedgerPanelProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const isAggregateView = selectedPortfolio === ALL_PORTFOLIOS;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = Number(form.amount);
+    if (!form.date || !isFinite(amount) || amount <= 0) {
+      toast.error('Completa fecha y un monto mayor a 0');
+      return;
+    }
+
+    // Every movement belongs to a portfolio; in the aggregate view it is picked in the form
+    const portfolioId = isAggregateView ? form.portfolioId : selectedPortfolio;
+    if (!portfolioId) {
+      toast.error('Elige el portafolio del movimiento');
+      return;
+    }
+
+    onAdd({
+      id: `cash-${form.type}-${form.date}-${Date.now()}`,
+      date: toTradeDate(form.date),
+      type: form.type,
+      amount,
+      note: form.note.trim() || undefined,
+      portfolioId,
+    });
+    setForm(EMPTY_FORM);
+  };
+
+  const summaryItems = [
+    { label: 'Saldo inicial', value: summary.startingBalance },
+    { label: 'Depósitos', value: summary.deposits },
+    { label: 'Retiros', value: summary.withdrawals },
+    { label: 'Efectivo', value: summary.cashBalance },
+    { label: 'Poder de compra', value: summary.buyingPower },
+  ];
+
+  const sortedMovements = [...movements].sort((a, b) => sortKey(a.date).localeCompare(sortKey(b.date)));
+
+  return (
+    <Card className="border-border bg-card premium-card shadow-premium overflow-hidden">
+      <CardHeader>
+        <CardTitle className="text-sm uppercase tracking-wider font-semibold text-muted-foreground">
+          💵 Efectivo y capital
+        </CardTitle>
+        <p className="text-xs text-muted-foreground mt-1">
+          El efectivo parte del saldo inicial más depósitos menos retiros, y se mueve con cada compra, venta y comisión
+          • El saldo inicial cuenta desde antes de la primera operación
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+          {summaryItems.map(item => (
+            <div key={item.label} className="rounded-lg border border-border/50 bg-secondary/20 p-4">
+              <div className="text-muted-foreground text-xs uppercase tracking-wider mb-2 font-medium">
+                {item.label}
+              </div>
+              <div className={`text-xl font-bold ${item.value < 0 ? 'text-destructive' : 'text-foreground'}`}>
+                {formatCurrency(item.value)}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <form
+          onSubmit={handleSubmit}
+          className={`grid grid-cols-1 items-end gap-3 ${
+            isAggregateView ? 'md:grid-cols-[2fr_1fr_1fr_1fr_2fr_auto]' : 'md:grid-cols-[1fr_1fr_1fr_2fr_auto]'
+          }`}>
+          {isAggregateView && (
+            <TargetPortfolioSelect
+              id="cash-portfolio"
+              portfolios={portfolios}
+              value={form.portfolioId}
+              onChange={portfolioId => setForm({ ...form, portfolioId })}
+            />
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="cash-type">Tipo</Label>
+            <Select
+              value={form.type}
+              onValueChange={value => setForm({ ...form, type: value as CashMovement['type'] })}>
+              <SelectTrigger id="cash-type" className="bg-secondary border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CASH_MOVEMENT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cash-date">Fecha</Label>
+            <Input
+              id="cash-date"
+              type="date"
+              value={form.date}
+              onChange={e => setForm({ ...form, date: e.target.value })}
+              className="bg-secondary border-border"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cash-amount">Monto</Label>
+            <Input
+              id="cash-amount"
+              type="number"
+              step="any"
+              value={form.amount}
+              onChange={e => setForm({ ...form, amount: e.target.value })}
+              className="bg-secondary border-border"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cash-note">Nota</Label>
+            <Input
+              id="cash-note"
+              value={form.note}
+              onChange={e => setForm({ ...form, note: e.target.value })}
+              placeholder="Ej. transferencia bancaria"
+              className="bg-secondary border-border"
+            />
+          </div>
+          <Button type="submit" className="bg-success hover:bg-success/90 text-success-foreground">
+            Agregar
+          </Button>
+        </form>
+
+        <div className="max-h-72 overflow-auto rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border bg-secondary/30">
+                <TableHead className="text-xs uppercase tracking-wider text-muted-foreground font-semibold">
+                  Fecha
+                </TableHead>
+                <TableHead className="text-xs uppercase tracking-wider text-muted-foreground font-semibold">
+                  Tipo
+                </TableHead>
+                <TableHead className="text-xs uppercase tracking-wider text-muted-foreground font-semibold text-right">
+                  Monto
+                </TableHead>
+                <TableHead className="text-xs uppercase tracking-wider text-muted-foreground font-semibold">
+                  Nota
+                </TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedMovements.length === 0 ? (
+                <TableRow className="border-border">
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    Sin movimientos de efectivo • La curva muestra solo P&L hasta registrar un saldo inicial
+                  </TableCell>
+                </TableRow>
+              ) : (
+                sortedMovements.map(movement => (
+                  <TableRow key={movement.id} className="border-border">
+                    <TableCell className="text-muted-foreground font-mono text-sm">{movement.date}</TableCell>
+                    <TableCell className="text-foreground">{CASH_MOVEMENT_LABELS[movement.type]}</TableCell>
+                    <TableCell
+                      className={`text-right font-semibold ${
+                        movement.type === 'withdrawal' ? 'text-destructive' : 'text-success'
+                      }`}>
+                      {formatCurrency(movement.type === 'withdrawal' ? -movement.amount : movement.amount)}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{movement.note}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onRemove(movement)}
+                        title="Eliminar movimiento">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,194 @@
+import { Fragment, useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { RoundTrip } from '@/lib/tradeCalculations';
+import { ArrowUpDown, ArrowUp, ArrowDown, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface ClosedPositionsTableProps {
+  roundTrips: RoundTrip[];
+}
+
+type SortField =
+  | 'symbol'
+  | 'openedAt'
+  | 'closedAt'
+  | 'holdingDays'
+  | 'entryPrice'
+  | 'exitPrice'
+  | 'realizedPnL'
+  | 'returnPercent';
+type SortDirection = 'asc' | 'desc';
+
+const NUMERIC_COLUMNS: { field: SortField; label: string }[] = [
+  { field: 'holdingDays', label: 'Days Held' },
+  { field: 'entryPrice', label: 'Avg Entry' },
+  { field: 'exitPrice', label: 'Avg Exit' },
+  { field: 'realizedPnL', label: 'Realized P&L' },
+  { field: 'returnPercent', label: 'Return' },
+];
+
+export function ClosedPositionsTable({ roundTrips }: ClosedPositionsTableProps) {
+  const [sortField, setSortField] = useState<SortField>('closedAt');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
+
+  const formatCurrency = (value: number) => {
+    return `USD $${new Intl.NumberFormat('en-US', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(value)}`;
+  };
+
+  const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString('en-US', { month: '2-digit', day: '2-digit', year: 'numeric' });
+
+  const handleSort = (field: SortField) => {
+    if (sortField === field) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortDirection(field === 'symbol' ? 'asc' : 'desc');
+    }
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(
+      expandedIds.includes(id) ? expandedIds.filter(expandedId => expandedId !== id) : [...expandedIds, id],
+    );
+  };
+
+  const sortedTrips = [...roundTrips].sort((a, b) => {
+    const comparison = sortField === 'symbol' ? a.symbol.localeCompare(b.symbol) : a[sortField] - b[sortField];
+    return sortDirection === 'asc' ? comparison : -comparison;
+  });
+
+  const winningTrips = roundTrips.filter(trip => trip.realizedPnL > 0).length;
+  const totalPnL = roundTrips.reduce((sum, trip) => sum + trip.realizedPnL, 0);
+
+  const SortIcon = ({ field }: { field: SortField }) => {
+    if (sortField !== field) {
+      return <ArrowUpDown className="ml-1 h-4 w-4 opacity-50" />;
+    }
+    return sortDirection === 'asc' ? <ArrowUp className="ml-1 h-4 w-4" /> : <ArrowDown className="ml-1 h-4 w-4" />;
+  };
+
+  const pnlClassName = (value: number) =>
+    value > 0 ? 'text-success' : value < 0 ? 'text-destructive' : 'text-muted-foreground';
+
+  const SortableHead = ({ field, label, alignRight }: { field: SortField; label: string; alignRight?: boolean }) => (
+    <TableHead
+      className={`text-xs uppercase tracking-wider text-muted-foreground cursor-pointer select-none hover:text-success transition-all duration-300 ${
+        alignRight ? 'text-right' : ''
+      }`}
+      onClick={() => handleSort(field)}>
+      <div className={`flex items-center font-semibold ${alignRight ? 'justify-end' : ''}`}>
+        {label}
+        <SortIcon field={field} />
+      </div>
+    </TableHead>
+  );
+
+  return (
+    <Card className="border-border bg-card premium-card shadow-premium overflow-hidden">
+      <CardHeader>
+        <CardTitle className="text-sm uppercase tracking-wider font-semibold text-muted-foreground">
+          🔁 Posiciones Cerradas ({roundTrips.length})
+        </CardTitle>
+        <p className="text-xs text-muted-foreground mt-1">
+          Cada fila va desde la apertura de la posición hasta que vuelve a cero • {winningTrips} ganadoras • P&L
+          realizado {formatCurrency(totalPnL)}
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="max-h-[600px] overflow-auto rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border bg-secondary/30">
+                <TableHead />
+                <SortableHead field="symbol" label="Symbol" />
+                <TableHead className="text-xs uppercase tracking-wider text-muted-foreground font-semibold">
+                  Side
+                </TableHead>
+                <SortableHead field="openedAt" label="Entry" />
+                <SortableHead field="closedAt" label="Exit" />
+                {NUMERIC_COLUMNS.map(column => (
+                  <SortableHead key={column.field} field={column.field} label={column.label} alignRight />
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedTrips.length === 0 ? (
+                <TableRow className="border-border">
+                  <TableCell colSpan={NUMERIC_COLUMNS.length + 5} className="text-center text-muted-foreground">
+                    Sin posiciones cerradas
+                  </TableCell>
+                </TableRow>
+              ) : (
+                sortedTrips.map(trip => {
+                  const expanded = expandedIds.includes(trip.id);
+
+                  return (
+                    <Fragment key={trip.id}>
+                      <TableRow
+                        className="border-border transition-all duration-300 striped-row cursor-pointer hover:bg-gradient-to-r hover:from-secondary/40 hover:to-transparent"
+                        onClick={() => toggleExpanded(trip.id)}>
+                        <TableCell className="w-8 text-muted-foreground">
+                          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="text-foreground font-bold">{trip.symbol}</TableCell>
+                        <TableCell>
+                          <span
+                            className={`px-3 py-1.5 rounded-md text-xs font-semibold uppercase tracking-wide inline-block ${
+                              trip.direction === 'long'
+                                ? 'bg-gradient-to-r from-success/20 to-success/10 text-success border border-success/30'
+                                : 'bg-gradient-to-r from-destructive/20 to-destructive/10 text-destructive border border-destructive/30'
+                            }`}>
+                            {trip.direction === 'long' ? 'Long' : 'Short'}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-foreground font-medium">{formatDate(trip.openedAt)}</TableCell>
+                        <TableCell className="text-foreground font-medium">{formatDate(trip.closedAt)}</TableCell>
+                        <TableCell className="text-muted-foreground text-right">{trip.holdingDays}</TableCell>
+                        <TableCell className="text-foreground text-right">{formatCurrency(trip.entryPrice)}</TableCell>
+                        <TableCell className="text-foreground text-right">{formatCurrency(trip.exitPrice)}</TableCell>
+                        <TableCell className={`text-right font-bold ${pnlClassName(trip.realizedPnL)}`}>
+                          {formatCurrency(trip.realizedPnL)}
+                        </TableCell>
+                        <TableCell className={`text-right font-semibold ${pnlClassName(trip.realizedPnL)}`}>
+                          {formatPercent(trip.returnPercent)}
+                        </TableCell>
+                      </TableRow>
+                      {expanded &&
+                        trip.executions.map(trade => (
+                          <TableRow key={`${trip.id}-${trade.id}`} className="border-border bg-secondary/10 text-sm">
+                            <TableCell />
+                            <TableCell className="text-muted-foreground">{trade.side}</TableCell>
+                            <TableCell className="text-muted-foreground font-mono">
+                              {Math.abs(trade.quantity).toFixed(4)}
+                            </TableCell>
+                            <TableCell className="text-muted-foreground" colSpan={2}>
+                              {trade.date} {trade.time}
+                            </TableCell>
+                            <TableCell />
+                            <TableCell className="text-muted-foreground text-right" colSpan={2}>
+                              {formatCurrency(trade.price)}
+                            </TableCell>
+                            <TableCell className={`text-right ${pnlClassName(trade.pnl || 0)}`}>
+                              {trade.pnl ? formatCurrency(trade.pnl) : '-'}
+                            </TableCell>
+                            <TableCell />
+                          </TableRow>
+                        ))}
+                    </Fragment>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
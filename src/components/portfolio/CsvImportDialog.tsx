@@ -0,0 +1,250 @@
+import { useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Upload } from 'lucide-react';
+import { Trade } from '@/types/trade';
+import {
+  ASSET_TYPES,
+  CSV_FIELDS,
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvField,
+  ParsedCsv,
+  getMissingRequiredFields,
+  guessColumnMapping,
+  mapCsvRows,
+  parseCsv,
+} from '@/lib/csvImport';
+import { ALL_PORTFOLIOS, PortfolioSummary } from '@/lib/tradeCalculations';
+import { ImportPreviewTable } from './ImportPreviewTable';
+import { TargetPortfolioSelect } from './TargetPortfolioSelect';
+import { toast } from 'sonner';
+
+interface CsvImportDialogProps {
+  portfolios: PortfolioSummary[];
+  selectedPortfolio: string;
+  onImportTrades: (trades: Trade[], portfolioId: string) => void;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'preview';
+
+const UNMAPPED = 'none';
+const DATE_FORMATS: CsvDateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+
+export function CsvImportDialog({ portfolios, selectedPortfolio, onImportTrades }: CsvImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [parsedCsv, setParsedCsv] = useState<ParsedCsv | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [targetPortfolio, setTargetPortfolio] = useState('');
+
+  const importRows = useMemo(() => (parsedCsv && mapping ? mapCsvRows(parsedCsv, mapping) : []), [parsedCsv, mapping]);
+  const validTrades = importRows.filter(row => row.trade).map(row => row.trade as Trade);
+  const invalidRows = importRows.filter(row => row.errors.length > 0);
+  const missingFields = mapping ? getMissingRequiredFields(mapping) : [];
+  const isAggregateView = selectedPortfolio === ALL_PORTFOLIOS;
+  const portfolioId = isAggregateView ? targetPortfolio : selectedPortfolio;
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setParsedCsv(null);
+    setMapping(null);
+    setTargetPortfolio('');
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      reset();
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    const parsed = parseCsv(await file.text());
+    if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+      toast.error('El archivo CSV está vacío o no tiene filas de datos');
+      return;
+    }
+
+    setFileName(file.name);
+    setParsedCsv(parsed);
+    setMapping(guessColumnMapping(parsed));
+    setStep('mapping');
+  };
+
+  const handleColumnChange = (field: CsvField, value: string) => {
+    setMapping({
+      ...mapping,
+      columns: { ...mapping.columns, [field]: value === UNMAPPED ? null : Number(value) },
+    });
+  };
+
+  const handleImport = () => {
+    if (validTrades.length === 0) {
+      toast.error('No hay operaciones válidas para importar');
+      return;
+    }
+
+    if (!portfolioId) {
+      toast.error('Elige el portafolio al que se importan las operaciones');
+      return;
+    }
+
+    onImportTrades(validTrades, portfolioId);
+    toast.success(`${validTrades.length} operaciones importadas desde ${fileName}`);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="border-border/50 bg-secondary/50">
+          <Upload className="mr-2 h-4 w-4" />
+          Importar CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-card border-border max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">Importar operaciones desde CSV</DialogTitle>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-2">
+            <Label htmlFor="csv-file">Archivo CSV del broker</Label>
+            <Input
+              id="csv-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange}
+              className="bg-secondary border-border"
+            />
+            <p className="text-xs text-muted-foreground">
+              Se admiten separadores coma, punto y coma o tabulador. La primera fila debe contener los encabezados.
+            </p>
+          </div>
+        )}
+
+        {step === 'mapping' && mapping && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {parsedCsv.rows.length} filas. Asigna cada campo a una columna del archivo.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              {CSV_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="space-y-2">
+                  <Label>
+                    {label}
+                    {required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping.columns[field] === null ? UNMAPPED : String(mapping.columns[field])}
+                    onValueChange={value => handleColumnChange(field, value)}>
+                    <SelectTrigger className="bg-secondary border-border">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Sin asignar</SelectItem>
+                      {parsedCsv.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Columna ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div className="space-y-2">
+                <Label>Formato de fecha</Label>
+                <Select
+                  value={mapping.dateFormat}
+                  onValueChange={value => setMapping({ ...mapping, dateFormat: value as CsvDateFormat })}>
+                  <SelectTrigger className="bg-secondary border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMATS.map(format => (
+                      <SelectItem key={format} value={format}>
+                        {format}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Tipo de activo por defecto</Label>
+                <Select
+                  value={mapping.defaultAssetType}
+                  onValueChange={value => setMapping({ ...mapping, defaultAssetType: value })}>
+                  <SelectTrigger className="bg-secondary border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ASSET_TYPES.map(assetType => (
+                      <SelectItem key={assetType.value} value={assetType.value}>
+                        {assetType.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={reset}>
+                Cambiar archivo
+              </Button>
+              <Button
+                disabled={missingFields.length > 0}
+                onClick={() => setStep('preview')}
+                className="bg-success hover:bg-success/90 text-success-foreground">
+                Vista previa
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              <span className="text-success font-semibold">{validTrades.length} válidas</span>
+              {' • '}
+              <span className={invalidRows.length > 0 ? 'text-destructive font-semibold' : ''}>
+                {invalidRows.length} con errores
+              </span>
+              {invalidRows.length > 0 && ' (las filas con errores no se importarán)'}
+            </p>
+            <ImportPreviewTable rows={importRows} />
+            {isAggregateView && (
+              <TargetPortfolioSelect
+                id="csv-target-portfolio"
+                portfolios={portfolios}
+                value={targetPortfolio}
+                onChange={setTargetPortfolio}
+              />
+            )}
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep('mapping')}>
+                Volver al mapeo
+              </Button>
+              <Button
+                disabled={validTrades.length === 0 || !portfolioId}
+                onClick={handleImport}
+                className="bg-success hover:bg-success/90 text-success-foreground">
+                Importar {validTrades.length} operaciones
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,17 +1,130 @@
-import { useState } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area } from 'recharts';
+import { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Area,
+  AreaChart,
+  Legend,
+} from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { CumulativePnLPoint } from '@/types/trade';
+import { CumulativePnLPoint, ReturnMethod, ValuationResolution } from '@/types/trade';
+import { RETURN_METHODS, calculateReturnSeries } from '@/lib/returns';
+import { BENCHMARKS, BenchmarkCurve } from '@/lib/benchmarks';
 
 interface CumulativePnLChartProps {
   data: CumulativePnLPoint[];
   currentPnL: number;
-  totalInvested: number;
+  resolution: ValuationResolution;
+  onResolutionChange: (resolution: ValuationResolution) => void;
+  returnMethod: ReturnMethod;
+  onReturnMethodChange: (method: ReturnMethod) => void;
+  benchmarks: BenchmarkCurve[];
+  selectedBenchmarks: string[];
+  onSelectedBenchmarksChange: (symbols: string[]) => void;
 }
 
-export function CumulativePnLChart({ data, currentPnL, totalInvested }: CumulativePnLChartProps) {
-  const [viewMode, setViewMode] = useState<'absolute' | 'percentage'>('absolute');
-  const STARTING_EQUITY = 10000;
+type ChartRange = '3M' | '6M' | '1A' | 'ALL';
+type SeriesMode = 'total' | 'stacked';
+type Granularity = 'day' | 'week' | 'month';
+type ViewMode = 'absolute' | 'percentage';
+
+const RESOLUTIONS: { value: ValuationResolution; label: string }[] = [
+  { value: 'monthly', label: 'Mensual' },
+  { value: 'weekly', label: 'Semanal' },
+  { value: 'daily', label: 'Diario' },
+];
+
+const RANGES: { value: ChartRange; label: string; months: number | null }[] = [
+  { value: '3M', label: '3M', months: 3 },
+  { value: '6M', label: '6M', months: 6 },
+  { value: '1A', label: '1A', months: 12 },
+  { value: 'ALL', label: 'Todo', months: null },
+];
+
+const toggleClassName = (active: boolean) =>
+  `px-3 py-1.5 text-xs font-semibold rounded-md transition-all duration-300 ${
+    active
+      ? 'bg-success/20 text-success shadow-md border border-success/30'
+      : 'text-muted-foreground hover:text-foreground hover:bg-card/50'
+  }`;
+
+// Display granularity for a span of days: daily up to a quarter, weekly up to a bit over a year, monthly beyond
+function getGranularity(spanDays: number): Granularity {
+  if (spanDays <= 120) {
+    return 'day';
+  }
+  return spanDays <= 400 ? 'week' : 'month';
+}
+
+function getBucketKey(date: Date, granularity: Granularity): string {
+  if (granularity === 'month') {
+    return `${date.getFullYear()}-${date.getMonth()}`;
+  }
+
+  if (granularity === 'week') {
+    // Weeks are identified by their Monday
+    const monday = new Date(date);
+    monday.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    return monday.toDateString();
+  }
+
+  return date.toDateString();
+}
+
+// Value of every point in the current view, keyed by date: equity or P&L in USD, cumulative TWR or MWR in %
+function getSeriesValues(
+  points: CumulativePnLPoint[],
+  viewMode: ViewMode,
+  showEquity: boolean,
+  returnMethod: ReturnMethod,
+): Map<string, number> {
+  if (viewMode === 'percentage') {
+    const series = calculateReturnSeries(points, returnMethod);
+    return new Map(points.map((point, index) => [point.date, series[index] * 100]));
+  }
+
+  return new Map(points.map(point => [point.date, showEquity ? point.equity ?? 0 : point.value]));
+}
+
+// Keep the last point of every bucket (the period close); a bucket is estimated if any of its points is
+function aggregatePoints(points: CumulativePnLPoint[], granularity: Granularity): CumulativePnLPoint[] {
+  const aggregated: CumulativePnLPoint[] = [];
+  let currentKey = '';
+
+  for (const point of points) {
+    const key = getBucketKey(new Date(point.date), granularity);
+    const previous = aggregated[aggregated.length - 1];
+
+    if (previous && key === currentKey) {
+      aggregated[aggregated.length - 1] = { ...point, estimated: previous.estimated || point.estimated };
+    } else {
+      aggregated.push(point);
+      currentKey = key;
+    }
+  }
+
+  return aggregated;
+}
+
+export function CumulativePnLChart({
+  data,
+  currentPnL,
+  resolution,
+  onResolutionChange,
+  returnMethod,
+  onReturnMethodChange,
+  benchmarks,
+  selectedBenchmarks,
+  onSelectedBenchmarksChange,
+}: CumulativePnLChartProps) {
+  const [viewMode, setViewMode] = useState<ViewMode>('absolute');
+  const [range, setRange] = useState<ChartRange>('ALL');
+  const [seriesMode, setSeriesMode] = useState<SeriesMode>('total');
 
   const formatCurrency = (value: number) => {
     return `USD $${new Intl.NumberFormat('en-US', {
@@ -24,32 +137,154 @@ export function CumulativePnLChart({ data, currentPnL, totalInvested }: Cumulati
     return `${value.toFixed(2)}%`;
   };
 
+  const formatRatio = (value: number, suffix = '') => (isFinite(value) ? `${value.toFixed(2)}${suffix}` : '-');
+
+  // Restrict to the selected range, then thin out dense (daily/weekly) data so the line stays readable
+  const rangeMonths = RANGES.find(r => r.value === range)?.months;
+  const lastDate = data.length > 0 ? new Date(data[data.length - 1].date) : new Date();
+  const rangeStart = new Date(lastDate);
+  if (rangeMonths) {
+    rangeStart.setMonth(rangeStart.getMonth() - rangeMonths);
+  }
+  const rangeData = rangeMonths ? data.filter(point => new Date(point.date) >= rangeStart) : data;
+  const spanDays =
+    rangeData.length > 0 ? (lastDate.getTime() - new Date(rangeData[0].date).getTime()) / (24 * 60 * 60 * 1000) : 0;
+  const granularity = resolution === 'monthly' ? 'month' : getGranularity(spanDays);
+  const visibleData = resolution === 'monthly' ? rangeData : aggregatePoints(rangeData, granularity);
+
   const formatDate = (dateString: string) => {
+    if (dateString === 'Start') {
+      return dateString;
+    }
+
     const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+    return granularity === 'month'
+      ? date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+      : date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: '2-digit' });
   };
 
-  const currentPnLPercentage = totalInvested > 0 ? (currentPnL / totalInvested) * 100 : 0;
-  // Add starting point and convert data based on view mode
-  const chartData =
-    viewMode === 'absolute'
+  // Once deposits or a starting balance are recorded the total line in USD is the account equity (cash + market
+  // value); without them it is the P&L from zero. The realized/unrealized stack is always P&L, so only in USD.
+  const showEquity = viewMode === 'absolute' && data.some(point => point.netDeposits);
+  const showStacked = viewMode === 'absolute' && seriesMode === 'stacked';
+
+  // Returns are computed over the full series (not just the visible range), so they are memoized
+  const portfolioValues = useMemo(
+    () => getSeriesValues(data, viewMode, showEquity, returnMethod),
+    [data, viewMode, showEquity, returnMethod],
+  );
+  const benchmarkValues = useMemo(
+    () => benchmarks.map(curve => getSeriesValues(curve.points, viewMode, showEquity, returnMethod)),
+    [benchmarks, viewMode, showEquity, returnMethod],
+  );
+
+  const chartData = [
+    ...(range === 'ALL' && !showEquity
       ? [
-          { date: 'Start', value: STARTING_EQUITY },
-          ...data.map(point => ({
-            date: point.date,
-            value: STARTING_EQUITY + point.value,
-          })),
+          {
+            date: 'Start',
+            value: 0,
+            realized: 0,
+            unrealized: 0,
+            ...Object.fromEntries(benchmarks.map(curve => [`benchmark_${curve.benchmark.symbol}`, 0])),
+          },
         ]
-      : [
-          { date: 'Start', value: 0 },
-          ...data.map(point => ({
-            date: point.date,
-            value: totalInvested > 0 ? (point.value / totalInvested) * 100 : 0,
-          })),
-        ];
+      : []),
+    ...visibleData.map(point => ({
+      date: point.date,
+      value: portfolioValues.get(point.date) ?? 0,
+      realized: point.realized ?? point.value,
+      unrealized: point.unrealized ?? 0,
+      estimated: point.estimated,
+      ...Object.fromEntries(
+        benchmarks.map((curve, index) => [
+          `benchmark_${curve.benchmark.symbol}`,
+          benchmarkValues[index].get(point.date),
+        ]),
+      ),
+    })),
+  ];
+
+  const toggleBenchmark = (symbol: string) => {
+    onSelectedBenchmarksChange(
+      selectedBenchmarks.includes(symbol)
+        ? selectedBenchmarks.filter(selected => selected !== symbol)
+        : [...selectedBenchmarks, symbol],
+    );
+  };
+
+  const formatValue = (value: number) => (viewMode === 'absolute' ? formatCurrency(value) : formatPercentage(value));
+
+  const tooltipStyle = {
+    backgroundColor: 'hsl(var(--popover))',
+    border: '1px solid hsl(var(--border))',
+    borderRadius: '12px',
+    color: 'hsl(var(--foreground))',
+    backdropFilter: 'blur(16px)',
+    boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+    padding: '12px 16px',
+  };
+
+  // Grid and axes shared by the total and stacked charts
+  const axes = [
+    <CartesianGrid key="grid" strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />,
+    <XAxis
+      key="x-axis"
+      dataKey="date"
+      stroke="hsl(var(--muted-foreground))"
+      tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+      tickFormatter={formatDate}
+      axisLine={{ stroke: 'hsl(var(--border))' }}
+    />,
+    <YAxis
+      key="y-axis"
+      stroke="hsl(var(--muted-foreground))"
+      tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+      tickFormatter={formatValue}
+      axisLine={{ stroke: 'hsl(var(--border))' }}
+    />,
+  ];
 
-  const displayValue =
-    viewMode === 'absolute' ? formatCurrency(STARTING_EQUITY + currentPnL) : formatPercentage(currentPnLPercentage);
+  const estimatedPoints = visibleData.filter(point => point.estimated).length;
+
+  // Months valued with an estimated price (missing-price policy) get a hollow warning dot
+  const renderEstimatedDot = ({
+    cx,
+    cy,
+    index,
+    payload,
+  }: {
+    cx: number;
+    cy: number;
+    index: number;
+    payload: CumulativePnLPoint;
+  }) =>
+    payload.estimated ? (
+      <circle
+        key={`estimated-${index}`}
+        cx={cx}
+        cy={cy}
+        r={5}
+        fill="hsl(var(--background))"
+        stroke="hsl(var(--warning))"
+        strokeWidth={2}
+      />
+    ) : (
+      <g key={`dot-${index}`} />
+    );
+
+  const lastPoint = data[data.length - 1];
+  const currentReturn = lastPoint ? portfolioValues.get(lastPoint.date) ?? 0 : 0;
+  const displayValue = showEquity
+    ? formatCurrency(lastPoint.equity ?? 0)
+    : viewMode === 'absolute'
+    ? formatCurrency(currentPnL)
+    : formatPercentage(currentReturn);
+  const seriesLabel = showEquity
+    ? 'Equity'
+    : viewMode === 'absolute'
+    ? 'P&L'
+    : RETURN_METHODS.find(method => method.value === returnMethod)?.label;
 
   return (
     <Card className="border-border bg-card premium-card shadow-premium overflow-hidden">
@@ -82,7 +317,9 @@ export function CumulativePnLChart({ data, currentPnL, totalInvested }: Cumulati
               </div>
               <span
                 className={`text-3xl font-bold tracking-tight transition-all duration-300 ${
-                  currentPnL >= 0 ? 'text-success glow-success' : 'text-destructive glow-destructive'
+                  (viewMode === 'absolute' ? currentPnL : currentReturn) >= 0
+                    ? 'text-success glow-success'
+                    : 'text-destructive glow-destructive'
                 }`}>
                 {displayValue}
               </span>
@@ -91,64 +328,194 @@ export function CumulativePnLChart({ data, currentPnL, totalInvested }: Cumulati
         </CardTitle>
       </CardHeader>
       <CardContent className="pt-0">
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-1 bg-secondary/50 p-1 rounded-lg border border-border/50">
+            {RESOLUTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => onResolutionChange(option.value)}
+                className={toggleClassName(resolution === option.value)}
+                title="Frecuencia de valoración mark-to-market">
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {viewMode === 'absolute' ? (
+            <div className="flex items-center gap-1 bg-secondary/50 p-1 rounded-lg border border-border/50">
+              <button onClick={() => setSeriesMode('total')} className={toggleClassName(seriesMode === 'total')}>
+                Total
+              </button>
+              <button onClick={() => setSeriesMode('stacked')} className={toggleClassName(seriesMode === 'stacked')}>
+                Realizado / No realizado
+              </button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-1 bg-secondary/50 p-1 rounded-lg border border-border/50">
+              {RETURN_METHODS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => onReturnMethodChange(option.value)}
+                  className={toggleClassName(returnMethod === option.value)}
+                  title="TWR: rentabilidad ponderada por tiempo • MWR: tasa interna de retorno de los flujos">
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-1 bg-secondary/50 p-1 rounded-lg border border-border/50">
+            <span className="px-2 text-xs font-semibold text-muted-foreground">vs</span>
+            {BENCHMARKS.map(benchmark => (
+              <button
+                key={benchmark.symbol}
+                onClick={() => toggleBenchmark(benchmark.symbol)}
+                className={toggleClassName(selectedBenchmarks.includes(benchmark.symbol))}
+                title={`Comparar con ${benchmark.label}`}>
+                {benchmark.symbol}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1 bg-secondary/50 p-1 rounded-lg border border-border/50">
+            {RANGES.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setRange(option.value)}
+                className={toggleClassName(range === option.value)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
         <ResponsiveContainer width="100%" height={350}>
-          <LineChart data={chartData}>
-            <defs>
-              <linearGradient id="colorPnL" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor="hsl(var(--success))" stopOpacity={0.3} />
-                <stop offset="95%" stopColor="hsl(var(--success))" stopOpacity={0} />
-              </linearGradient>
-            </defs>
-            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
-            <XAxis
-              dataKey="date"
-              stroke="hsl(var(--muted-foreground))"
-              tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
-              tickFormatter={formatDate}
-              axisLine={{ stroke: 'hsl(var(--border))' }}
-            />
-            <YAxis
-              stroke="hsl(var(--muted-foreground))"
-              tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
-              tickFormatter={viewMode === 'absolute' ? formatCurrency : formatPercentage}
-              axisLine={{ stroke: 'hsl(var(--border))' }}
-            />
-            <Tooltip
-              contentStyle={{
-                backgroundColor: 'hsl(var(--popover))',
-                border: '1px solid hsl(var(--border))',
-                borderRadius: '12px',
-                color: 'hsl(var(--foreground))',
-                backdropFilter: 'blur(16px)',
-                boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
-                padding: '12px 16px',
-              }}
-              formatter={(value: number) => [
-                viewMode === 'absolute' ? formatCurrency(value) : formatPercentage(value),
-                'P&L',
-              ]}
-              labelFormatter={formatDate}
-              cursor={{ stroke: 'hsl(var(--success))', strokeWidth: 1, strokeDasharray: '5 5' }}
-            />
-            <Area type="monotone" dataKey="value" stroke="none" fill="url(#colorPnL)" animationDuration={1500} />
-            <Line
-              type="monotone"
-              dataKey="value"
-              stroke="hsl(var(--success))"
-              strokeWidth={3}
-              dot={false}
-              activeDot={{
-                r: 6,
-                fill: 'hsl(var(--success))',
-                stroke: 'hsl(var(--background))',
-                strokeWidth: 3,
-                filter: 'drop-shadow(0 0 12px rgba(16, 185, 129, 0.8))',
-              }}
-              animationDuration={1500}
-              filter="drop-shadow(0 0 8px rgba(16, 185, 129, 0.4))"
-            />
-          </LineChart>
+          {!showStacked ? (
+            <LineChart data={chartData}>
+              <defs>
+                <linearGradient id="colorPnL" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="hsl(var(--success))" stopOpacity={0.3} />
+                  <stop offset="95%" stopColor="hsl(var(--success))" stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              {axes}
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={(value: number, name, item) =>
+                  item.dataKey === 'value'
+                    ? [formatValue(value), item.payload?.estimated ? `${seriesLabel} (precio estimado)` : seriesLabel]
+                    : [formatValue(value), name]
+                }
+                labelFormatter={formatDate}
+                cursor={{ stroke: 'hsl(var(--success))', strokeWidth: 1, strokeDasharray: '5 5' }}
+              />
+              <Area type="monotone" dataKey="value" stroke="none" fill="url(#colorPnL)" animationDuration={1500} />
+              <Line
+                type="monotone"
+                dataKey="value"
+                stroke="hsl(var(--success))"
+                strokeWidth={3}
+                dot={renderEstimatedDot}
+                activeDot={{
+                  r: 6,
+                  fill: 'hsl(var(--success))',
+                  stroke: 'hsl(var(--background))',
+                  strokeWidth: 3,
+                  filter: 'drop-shadow(0 0 12px rgba(16, 185, 129, 0.8))',
+                }}
+                animationDuration={1500}
+                filter="drop-shadow(0 0 8px rgba(16, 185, 129, 0.4))"
+              />
+              {benchmarks.map(curve => (
+                <Line
+                  key={curve.benchmark.symbol}
+                  type="monotone"
+                  dataKey={`benchmark_${curve.benchmark.symbol}`}
+                  name={curve.benchmark.label}
+                  stroke={curve.benchmark.color}
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  dot={false}
+                  animationDuration={1500}
+                />
+              ))}
+            </LineChart>
+          ) : (
+            // Realized and unrealized P&L stacked; "sign" keeps losses stacking below zero
+            <AreaChart data={chartData} stackOffset="sign">
+              {axes}
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={(value: number, name) => [formatValue(value), name]}
+                labelFormatter={formatDate}
+                cursor={{ stroke: 'hsl(var(--success))', strokeWidth: 1, strokeDasharray: '5 5' }}
+              />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Area
+                type="monotone"
+                dataKey="realized"
+                name="Realizado"
+                stackId="pnl"
+                stroke="hsl(var(--chart-positive))"
+                fill="hsl(var(--chart-positive))"
+                fillOpacity={0.3}
+                animationDuration={1500}
+              />
+              <Area
+                type="monotone"
+                dataKey="unrealized"
+                name="No realizado"
+                stackId="pnl"
+                stroke="hsl(var(--chart-neutral))"
+                fill="hsl(var(--chart-neutral))"
+                fillOpacity={0.3}
+                animationDuration={1500}
+              />
+            </AreaChart>
+          )}
         </ResponsiveContainer>
+        {estimatedPoints > 0 && (
+          <p className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="inline-block h-2.5 w-2.5 rounded-full border-2 border-warning" />
+            {estimatedPoints} {estimatedPoints === 1 ? 'punto valorado' : 'puntos valorados'} con precios estimados por
+            falta de cierre en el proveedor
+          </p>
+        )}
+        {benchmarks.length > 0 && (
+          <div className="mt-4 overflow-x-auto rounded-lg border border-border/50">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-secondary/30 text-xs uppercase tracking-wider text-muted-foreground">
+                  <th className="px-4 py-2 text-left font-semibold">Benchmark</th>
+                  <th className="px-4 py-2 text-right font-semibold">Alpha anual</th>
+                  <th className="px-4 py-2 text-right font-semibold">Beta</th>
+                  <th className="px-4 py-2 text-right font-semibold">Correlación</th>
+                  <th className="px-4 py-2 text-right font-semibold">Tracking error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {benchmarks.map(({ benchmark, stats }) => (
+                  <tr key={benchmark.symbol} className="border-t border-border/50">
+                    <td className="px-4 py-2 font-semibold" style={{ color: benchmark.color }}>
+                      {benchmark.label}
+                    </td>
+                    <td
+                      className={`px-4 py-2 text-right font-semibold ${
+                        stats.alpha >= 0 ? 'text-success' : 'text-destructive'
+                      }`}>
+                      {formatRatio(stats.alpha * 100, '%')}
+                    </td>
+                    <td className="px-4 py-2 text-right text-foreground">{formatRatio(stats.beta)}</td>
+                    <td className="px-4 py-2 text-right text-foreground">{formatRatio(stats.correlation)}</td>
+                    <td className="px-4 py-2 text-right text-foreground">
+                      {formatRatio(stats.trackingError * 100, '%')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="px-4 py-2 text-xs text-muted-foreground">
+              Cada benchmark recibe los mismos aportes y retiros que el portafolio, en las mismas fechas • Métricas
+              sobre retornos periódicos TWR
+            </p>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
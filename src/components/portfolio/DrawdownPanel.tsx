@@ -0,0 +1,127 @@
+import { Area, AreaChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DrawdownAnalysis } from '@/lib/drawdown';
+
+interface DrawdownPanelProps {
+  analysis: DrawdownAnalysis;
+}
+
+const formatCurrency = (value: number) =>
+  `USD $${new Intl.NumberFormat('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value)}`;
+
+const formatPercentage = (value: number) => `${value.toFixed(2)}%`;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: '2-digit' });
+
+const formatDays = (days: number) => `${days} días`;
+
+export function DrawdownPanel({ analysis }: DrawdownPanelProps) {
+  const { series, stats } = analysis;
+
+  const statItems = [
+    {
+      label: 'Drawdown máximo',
+      value: formatPercentage(stats.maxDrawdownPercent),
+      detail:
+        stats.peakDate && stats.troughDate ? `${formatDate(stats.peakDate)} → ${formatDate(stats.troughDate)}` : '',
+    },
+    {
+      label: 'Drawdown máximo (USD)',
+      value: formatCurrency(stats.maxDrawdown),
+      detail: 'Desde el máximo de P&L',
+    },
+    {
+      label: 'Drawdown actual',
+      value: formatPercentage(stats.currentDrawdownPercent),
+      detail: formatCurrency(stats.currentDrawdown),
+    },
+    {
+      label: 'Duración actual',
+      value: formatDays(stats.currentDrawdownDays),
+      detail: `Más larga: ${formatDays(stats.longestDrawdownDays)}`,
+    },
+    {
+      label: 'Recuperación del máximo',
+      value: stats.recoveryDays !== null ? formatDays(stats.recoveryDays) : stats.troughDate ? 'Sin recuperar' : '-',
+      detail: stats.recoveryDate ? `Recuperado el ${formatDate(stats.recoveryDate)}` : '',
+    },
+  ];
+
+  return (
+    <Card className="border-border bg-card premium-card shadow-premium overflow-hidden">
+      <CardHeader>
+        <CardTitle className="text-sm uppercase tracking-wider font-semibold text-muted-foreground">
+          📉 Drawdown
+        </CardTitle>
+        <p className="text-xs text-muted-foreground mt-1">
+          Caída desde el máximo previo • % sobre la rentabilidad TWR, sin contar depósitos ni retiros
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+          {statItems.map(item => (
+            <div key={item.label} className="rounded-lg border border-border/50 bg-secondary/20 p-4">
+              <div className="text-muted-foreground text-xs uppercase tracking-wider mb-2 font-medium">
+                {item.label}
+              </div>
+              <div className="text-xl font-bold text-foreground">{item.value}</div>
+              {item.detail && <div className="text-xs text-muted-foreground mt-1">{item.detail}</div>}
+            </div>
+          ))}
+        </div>
+
+        {/* Underwater chart: 0% at every new high, below it while under water */}
+        <ResponsiveContainer width="100%" height={200}>
+          <AreaChart data={series}>
+            <defs>
+              <linearGradient id="colorDrawdown" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="hsl(var(--destructive))" stopOpacity={0.1} />
+                <stop offset="95%" stopColor="hsl(var(--destructive))" stopOpacity={0.5} />
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+            <XAxis
+              dataKey="date"
+              stroke="hsl(var(--muted-foreground))"
+              tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+              tickFormatter={formatDate}
+              axisLine={{ stroke: 'hsl(var(--border))' }}
+            />
+            <YAxis
+              stroke="hsl(var(--muted-foreground))"
+              tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+              tickFormatter={formatPercentage}
+              domain={['dataMin', 0]}
+              axisLine={{ stroke: 'hsl(var(--border))' }}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'hsl(var(--popover))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '12px',
+                color: 'hsl(var(--foreground))',
+              }}
+              formatter={(value: number, _name, item) => [
+                `${formatPercentage(value)} (${formatCurrency(item.payload.drawdown)})`,
+                'Drawdown',
+              ]}
+              labelFormatter={formatDate}
+            />
+            <Area
+              type="monotone"
+              dataKey="drawdownPercent"
+              stroke="hsl(var(--destructive))"
+              strokeWidth={2}
+              fill="url(#colorDrawdown)"
+              animationDuration={1500}
+            />
+          </AreaChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
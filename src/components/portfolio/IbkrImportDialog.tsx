@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FileCode } from 'lucide-react';
+import { Trade, TradeImportRow } from '@/types/trade';
+import { parseIbkrFlexXml } from '@/lib/ibkrFlexParser';
+import { ALL_PORTFOLIOS, PortfolioSummary } from '@/lib/tradeCalculations';
+import { ImportPreviewTable } from './ImportPreviewTable';
+import { TargetPortfolioSelect } from './TargetPortfolioSelect';
+import { toast } from 'sonner';
+
+interface IbkrImportDialogProps {
+  portfolios: PortfolioSummary[];
+  selectedPortfolio: string;
+  onImportTrades: (trades: Trade[], portfolioId: string) => void;
+}
+
+export function IbkrImportDialog({ portfolios, selectedPortfolio, onImportTrades }: IbkrImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [importRows, setImportRows] = useState<TradeImportRow[]>([]);
+  const [targetPortfolio, setTargetPortfolio] = useState('');
+
+  const validTrades = importRows.filter(row => row.trade).map(row => row.trade as Trade);
+  const invalidRows = importRows.filter(row => row.errors.length > 0);
+  const totalCommission = validTrades.reduce((sum, t) => sum + t.commission, 0);
+  const currencies = Array.from(new Set(validTrades.map(t => t.currency)));
+  const isAggregateView = selectedPortfolio === ALL_PORTFOLIOS;
+  const portfolioId = isAggregateView ? targetPortfolio : selectedPortfolio;
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setFileName('');
+      setImportRows([]);
+      setTargetPortfolio('');
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    setFileName(file.name);
+    setImportRows(parseIbkrFlexXml(await file.text()));
+  };
+
+  const handleImport = () => {
+    if (!portfolioId) {
+      toast.error('Elige el portafolio al que se importan las ejecuciones');
+      return;
+    }
+
+    onImportTrades(validTrades, portfolioId);
+    toast.success(`${validTrades.length} ejecuciones de IBKR importadas desde ${fileName}`);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="border-border/50 bg-secondary/50">
+          <FileCode className="mr-2 h-4 w-4" />
+          Importar IBKR
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-card border-border max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">Importar Flex Query de Interactive Brokers</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="ibkr-file">Reporte XML (Trade Confirmation o Activity Flex Query)</Label>
+            <Input
+              id="ibkr-file"
+              type="file"
+              accept=".xml,application/xml,text/xml"
+              onChange={handleFileChange}
+              className="bg-secondary border-border"
+            />
+          </div>
+
+          {importRows.length > 0 && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                <span className="text-success font-semibold">{validTrades.length} válidas</span>
+                {' • '}
+                <span className={invalidRows.length > 0 ? 'text-destructive font-semibold' : ''}>
+                  {invalidRows.length} con errores
+                </span>
+                {' • '}
+                Comisiones: USD ${totalCommission.toFixed(2)}
+                {currencies.length > 0 && ` • Divisas: ${currencies.join(', ')}`}
+              </p>
+              <ImportPreviewTable rows={importRows} />
+              {isAggregateView && (
+                <TargetPortfolioSelect
+                  id="ibkr-target-portfolio"
+                  portfolios={portfolios}
+                  value={targetPortfolio}
+                  onChange={setTargetPortfolio}
+                />
+              )}
+              <div className="flex justify-end">
+                <Button
+                  disabled={validTrades.length === 0 || !portfolioId}
+                  onClick={handleImport}
+                  className="bg-success hover:bg-success/90 text-success-foreground">
+                  Importar {validTrades.length} ejecuciones
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,64 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { TradeImportRow } from '@/types/trade';
+
+interface ImportPreviewTableProps {
+  rows: TradeImportRow[];
+}
+
+export function ImportPreviewTable({ rows }: ImportPreviewTableProps) {
+  return (
+    <div className="max-h-96 overflow-auto rounded-lg border border-border">
+      <Table>
+        <TableHeader>
+          <TableRow className="border-border bg-secondary/30">
+            <TableHead className="text-xs uppercase tracking-wider text-muted-foreground">Fila</TableHead>
+            <TableHead className="text-xs uppercase tracking-wider text-muted-foreground">Fecha</TableHead>
+            <TableHead className="text-xs uppercase tracking-wider text-muted-foreground">Symbol</TableHead>
+            <TableHead className="text-xs uppercase tracking-wider text-muted-foreground">Side</TableHead>
+            <TableHead className="text-xs uppercase tracking-wider text-muted-foreground text-right">
+              Quantity
+            </TableHead>
+            <TableHead className="text-xs uppercase tracking-wider text-muted-foreground text-right">Price</TableHead>
+            <TableHead className="text-xs uppercase tracking-wider text-muted-foreground text-right">
+              Commission
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row =>
+            row.trade ? (
+              <TableRow key={row.rowNumber} className="border-border">
+                <TableCell className="text-muted-foreground text-sm">{row.rowNumber}</TableCell>
+                <TableCell className="text-foreground text-sm">
+                  {row.trade.date} {row.trade.time}
+                </TableCell>
+                <TableCell className="text-foreground font-bold">
+                  {row.trade.symbol}
+                  {row.trade.assetType && (
+                    <span className="ml-2 text-xs font-normal text-muted-foreground">{row.trade.assetType}</span>
+                  )}
+                  {row.trade.currency && row.trade.currency !== 'USD' && (
+                    <span className="ml-2 text-xs font-normal text-muted-foreground">{row.trade.currency}</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-foreground text-sm">{row.trade.side}</TableCell>
+                <TableCell className="text-foreground text-right font-mono text-sm">
+                  {row.trade.quantity.toFixed(4)}
+                </TableCell>
+                <TableCell className="text-foreground text-right text-sm">{row.trade.price.toFixed(2)}</TableCell>
+                <TableCell className="text-foreground text-right text-sm">{row.trade.commission.toFixed(2)}</TableCell>
+              </TableRow>
+            ) : (
+              <TableRow key={row.rowNumber} className="border-border bg-destructive/10">
+                <TableCell className="text-muted-foreground text-sm">{row.rowNumber}</TableCell>
+                <TableCell colSpan={6} className="text-destructive text-sm">
+                  {row.errors.join(' • ')}
+                </TableCell>
+              </TableRow>
+            ),
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { OpenPosition } from '@/lib/tradeCalculations';
+import { ArrowUpDown, ArrowUp, ArrowDown, AlertTriangle } from 'lucide-react';
+
+interface OpenPositionsTableProps {
+  positions: OpenPosition[];
+  loadingPrices: boolean;
+}
+
+type SortField =
+  | 'symbol'
+  | 'quantity'
+  | 'averagePrice'
+  | 'lastPrice'
+  | 'marketValue'
+  | 'unrealizedPnL'
+  | 'unrealizedPnLPercent'
+  | 'weight'
+  | 'daysHeld';
+type SortDirection = 'asc' | 'desc';
+
+const COLUMNS: { field: SortField; label: string }[] = [
+  { field: 'quantity', label: 'Quantity' },
+  { field: 'averagePrice', label: 'Avg Cost' },
+  { field: 'lastPrice', label: 'Last Price' },
+  { field: 'marketValue', label: 'Market Value' },
+  { field: 'unrealizedPnL', label: 'Unrealized P&L' },
+  { field: 'unrealizedPnLPercent', label: 'P&L %' },
+  { field: 'weight', label: 'Weight' },
+  { field: 'daysHeld', label: 'Days Held' },
+];
+
+export function OpenPositionsTable({ positions, loadingPrices }: OpenPositionsTableProps) {
+  const [sortField, setSortField] = useState<SortField>('marketValue');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+
+  const formatCurrency = (value: number) => {
+    return `USD $${new Intl.NumberFormat('en-US', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(value)}`;
+  };
+
+  const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+
+  const handleSort = (field: SortField) => {
+    if (sortField === field) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortDirection(field === 'symbol' ? 'asc' : 'desc');
+    }
+  };
+
+  const sortedPositions = [...positions].sort((a, b) => {
+    const comparison = sortField === 'symbol' ? a.symbol.localeCompare(b.symbol) : a[sortField] - b[sortField];
+    return sortDirection === 'asc' ? comparison : -comparison;
+  });
+
+  const totalValue = positions.reduce((sum, position) => sum + position.marketValue, 0);
+  const totalPnL = positions.reduce((sum, position) => sum + position.unrealizedPnL, 0);
+  const estimatedPositions = positions.filter(position => position.estimated);
+
+  const SortIcon = ({ field }: { field: SortField }) => {
+    if (sortField !== field) {
+      return <ArrowUpDown className="ml-1 h-4 w-4 opacity-50" />;
+    }
+    return sortDirection === 'asc' ? <ArrowUp className="ml-1 h-4 w-4" /> : <ArrowDown className="ml-1 h-4 w-4" />;
+  };
+
+  const pnlClassName = (value: number) =>
+    value > 0 ? 'text-success' : value < 0 ? 'text-destructive' : 'text-muted-foreground';
+
+  return (
+    <Card className="border-border bg-card premium-card shadow-premium overflow-hidden">
+      <CardHeader>
+        <CardTitle className="text-sm uppercase tracking-wider font-semibold text-muted-foreground">
+          💼 Posiciones Abiertas ({positions.length})
+        </CardTitle>
+        <p className="text-xs text-muted-foreground mt-1">
+          {loadingPrices
+            ? 'Cargando últimos precios...'
+            : `Valor de mercado ${formatCurrency(totalValue)} • P&L no realizado ${formatCurrency(totalPnL)}`}
+        </p>
+        {!loadingPrices && estimatedPositions.length > 0 && (
+          <p className="text-xs text-warning mt-1 flex items-center gap-1">
+            <AlertTriangle className="h-3.5 w-3.5" />
+            {estimatedPositions.length} posiciones sin precio reciente se muestran a su costo promedio
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border bg-secondary/30">
+                <TableHead
+                  className="text-xs uppercase tracking-wider text-muted-foreground cursor-pointer select-none hover:text-success transition-all duration-300"
+                  onClick={() => handleSort('symbol')}>
+                  <div className="flex items-center font-semibold">
+                    Symbol
+                    <SortIcon field="symbol" />
+                  </div>
+                </TableHead>
+                {COLUMNS.map(column => (
+                  <TableHead
+                    key={column.field}
+                    className="text-xs uppercase tracking-wider text-muted-foreground text-right cursor-pointer select-none hover:text-success transition-all duration-300"
+                    onClick={() => handleSort(column.field)}>
+                    <div className="flex items-center justify-end font-semibold">
+                      {column.label}
+                      <SortIcon field={column.field} />
+                    </div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedPositions.length === 0 ? (
+                <TableRow className="border-border">
+                  <TableCell colSpan={COLUMNS.length + 1} className="text-center text-muted-foreground">
+                    Sin posiciones abiertas
+                  </TableCell>
+                </TableRow>
+              ) : (
+                sortedPositions.map(position => (
+                  <TableRow
+                    key={position.key}
+                    className={`
+                      border-border transition-all duration-300 striped-row
+                      hover:bg-gradient-to-r hover:from-secondary/40 hover:to-transparent
+                    `}>
+                    <TableCell className="text-foreground font-bold">
+                      {position.symbol}
+                      {position.isShort && (
+                        <span className="ml-2 px-2 py-0.5 rounded-md text-xs font-semibold uppercase tracking-wide bg-destructive/20 text-destructive border border-destructive/30">
+                          Short
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-foreground text-right font-mono text-sm">
+                      {position.quantity.toFixed(4)}
+                    </TableCell>
+                    <TableCell className="text-foreground text-right">
+                      {formatCurrency(position.averagePrice)}
+                    </TableCell>
+                    <TableCell className="text-foreground text-right">
+                      {position.estimated && (
+                        <span
+                          className="mr-2 inline-flex align-middle text-warning"
+                          title="Sin precio del proveedor, valorada a su costo promedio">
+                          <AlertTriangle className="h-4 w-4" />
+                        </span>
+                      )}
+                      {formatCurrency(position.lastPrice)}
+                    </TableCell>
+                    <TableCell className="text-foreground text-right font-semibold">
+                      {formatCurrency(position.marketValue)}
+                    </TableCell>
+                    <TableCell className={`text-right font-bold ${pnlClassName(position.unrealizedPnL)}`}>
+                      {formatCurrency(position.unrealizedPnL)}
+                    </TableCell>
+                    <TableCell className={`text-right font-semibold ${pnlClassName(position.unrealizedPnL)}`}>
+                      {formatPercent(position.unrealizedPnLPercent)}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-right">{formatPercent(position.weight)}</TableCell>
+                    <TableCell className="text-muted-foreground text-right">{position.daysHeld}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
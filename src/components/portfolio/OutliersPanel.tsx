@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { OutlierMethod, OutlierPolicy } from '@/types/trade';
+import { FlaggedTrade, OUTLIER_METHODS } from '@/lib/outliers';
+
+interface OutliersPanelProps {
+  policy: OutlierPolicy;
+  onPolicyChange: (policy: OutlierPolicy) => void;
+  flagged: FlaggedTrade[];
+  onInclusionChange: (tradeId: string, included: boolean) => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+
+export function OutliersPanel({ policy, onPolicyChange, flagged, onInclusionChange }: OutliersPanelProps) {
+  // Typed text of the threshold, committed while it parses to a positive number
+  const [thresholdInput, setThresholdInput] = useState(String(policy.threshold));
+
+  const method = OUTLIER_METHODS.find(option => option.value === policy.method) ?? OUTLIER_METHODS[0];
+  const excludedCount = flagged.filter(item => !item.included).length;
+
+  const formatScore = (score: number) =>
+    policy.method === 'absolute' ? formatCurrency(score) : `${score.toFixed(2)} ${method.unit}`;
+
+  const handleMethodChange = (value: string) => {
+    const option = OUTLIER_METHODS.find(o => o.value === value);
+    setThresholdInput(String(option.defaultThreshold));
+    onPolicyChange({ method: value as OutlierMethod, threshold: option.defaultThreshold });
+  };
+
+  const handleThresholdChange = (value: string) => {
+    setThresholdInput(value);
+    const threshold = Number(value);
+    if (value.trim() !== '' && isFinite(threshold) && threshold > 0) {
+      onPolicyChange({ ...policy, threshold });
+    }
+  };
+
+  return (
+    <Card className="border-border bg-card premium-card shadow-premium overflow-hidden">
+      <CardHeader>
+        <CardTitle className="text-sm uppercase tracking-wider font-semibold text-muted-foreground">
+          🧹 Excluidas de las estadísticas
+        </CardTitle>
+        <p className="text-xs text-muted-foreground mt-1">
+          Cierres con un P&L anómalo quedan fuera de las estadísticas de trading y del rendimiento mensual • La curva de
+          P&L siempre los incluye
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 items-end gap-3 md:grid-cols-[1fr_1fr_2fr]">
+          <div className="space-y-2">
+            <Label htmlFor="outlier-method">Criterio</Label>
+            <Select value={policy.method} onValueChange={handleMethodChange}>
+              <SelectTrigger id="outlier-method" className="bg-secondary border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OUTLIER_METHODS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {policy.method !== 'off' && (
+            <div className="space-y-2">
+              <Label htmlFor="outlier-threshold">Umbral ({method.unit})</Label>
+              <Input
+                id="outlier-threshold"
+                type="number"
+                step="any"
+                value={thresholdInput}
+                onChange={e => handleThresholdChange(e.target.value)}
+                className="bg-secondary border-border"
+              />
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground md:pb-3">
+            {policy.method === 'off'
+              ? 'Todas las posiciones cerradas cuentan para las estadísticas'
+              : `${excludedCount} excluidas • ${flagged.length - excludedCount} reincluidas a mano`}
+          </p>
+        </div>
+
+        <div className="max-h-72 overflow-auto rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border bg-secondary/30">
+                <TableHead className="text-xs uppercase tracking-wider text-muted-foreground font-semibold">
+                  Fecha
+                </TableHead>
+                <TableHead className="text-xs uppercase tracking-wider text-muted-foreground font-semibold">
+                  Activo
+                </TableHead>
+                <TableHead className="text-xs uppercase tracking-wider text-muted-foreground font-semibold">
+                  Tipo
+                </TableHead>
+                <TableHead className="text-xs uppercase tracking-wider text-muted-foreground font-semibold text-right">
+                  P&L
+                </TableHead>
+                <TableHead className="text-xs uppercase tracking-wider text-muted-foreground font-semibold text-right">
+                  Medida
+                </TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {flagged.length === 0 ? (
+                <TableRow className="border-border">
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    Ninguna posición cerrada supera el umbral
+                  </TableCell>
+                </TableRow>
+              ) : (
+                flagged.map(({ trade, score, included }) => (
+                  <TableRow key={trade.id} className={`border-border ${included ? '' : 'opacity-60'}`}>
+                    <TableCell className="text-muted-foreground font-mono text-sm">{trade.date}</TableCell>
+                    <TableCell className="text-foreground font-bold">{trade.symbol}</TableCell>
+                    <TableCell className="text-muted-foreground">{trade.side}</TableCell>
+                    <TableCell
+                      className={`text-right font-semibold ${
+                        (trade.pnl || 0) >= 0 ? 'text-success' : 'text-destructive'
+                      }`}>
+                      {formatCurrency(trade.pnl || 0)}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">{formatScore(score)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => onInclusionChange(trade.id, !included)}>
+                        {included ? 'Excluir' : 'Reincluir'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
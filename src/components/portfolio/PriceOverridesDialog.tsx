@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, PencilLine, Trash2, Upload } from 'lucide-react';
+import {
+  PriceOverride,
+  exportPriceOverrides,
+  parsePriceOverridesJson,
+  upsertPriceOverride,
+} from '@/lib/priceOverrides';
+import { toast } from 'sonner';
+
+interface PriceOverridesDialogProps {
+  overrides: PriceOverride[];
+  onChange: (overrides: PriceOverride[]) => void;
+}
+
+const EMPTY_FORM = { symbol: '', date: '', price: '', note: '' };
+
+export function PriceOverridesDialog({ overrides, onChange }: PriceOverridesDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const price = Number(form.price);
+    if (!form.symbol.trim() || !form.date || !isFinite(price) || price <= 0) {
+      toast.error('Completa ticker, fecha y un precio mayor a 0');
+      return;
+    }
+
+    onChange(
+      upsertPriceOverride(overrides, {
+        symbol: form.symbol,
+        date: form.date,
+        price,
+        note: form.note.trim() || undefined,
+      }),
+    );
+    setForm(EMPTY_FORM);
+  };
+
+  const handleRemove = (override: PriceOverride) => {
+    onChange(overrides.filter(o => o !== override));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPriceOverrides(overrides)], { type: 'application/json;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'price-overrides.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    const { overrides: imported, errors } = parsePriceOverridesJson(await file.text());
+    if (imported.length === 0) {
+      toast.error(errors[0] || 'El archivo no contiene precios');
+      return;
+    }
+
+    // Imported corrections replace local ones for the same ticker and date
+    onChange(imported.reduce(upsertPriceOverride, overrides));
+    toast.success(
+      `${imported.length} precios importados${
+        errors.length > 0 ? ` (${errors.length} entradas inválidas omitidas)` : ''
+      }`,
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="border-border/50 bg-secondary/50">
+          <PencilLine className="mr-2 h-4 w-4" />
+          Precios manuales
+          {overrides.length > 0 && <span className="ml-2 text-xs text-warning">{overrides.length}</span>}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-card border-border max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">Precios de cierre manuales</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          Estos precios reemplazan los del proveedor para el ticker y la fecha indicados. Después, el último precio
+          manual se sigue usando mientras el proveedor no tenga cierre (fines de semana, feriados, tickers deslistados).
+        </p>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-[1fr_1fr_1fr_2fr_auto] items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="override-symbol">Ticker</Label>
+            <Input
+              id="override-symbol"
+              value={form.symbol}
+              onChange={e => setForm({ ...form, symbol: e.target.value.toUpperCase() })}
+              placeholder="AAPL"
+              className="bg-secondary border-border"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="override-date">Fecha</Label>
+            <Input
+              id="override-date"
+              type="date"
+              value={form.date}
+              onChange={e => setForm({ ...form, date: e.target.value })}
+              className="bg-secondary border-border"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="override-price">Precio</Label>
+            <Input
+              id="override-price"
+              type="number"
+              step="any"
+              value={form.price}
+              onChange={e => setForm({ ...form, price: e.target.value })}
+              className="bg-secondary border-border"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="override-note">Nota</Label>
+            <Input
+              id="override-note"
+              value={form.note}
+              onChange={e => setForm({ ...form, note: e.target.value })}
+              placeholder="Ej. deslistada"
+              className="bg-secondary border-border"
+            />
+          </div>
+          <Button type="submit" className="bg-success hover:bg-success/90 text-success-foreground">
+            Guardar
+          </Button>
+        </form>
+
+        <div className="max-h-72 overflow-auto rounded-md border border-border/50">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border hover:bg-transparent">
+                <TableHead className="text-muted-foreground">Ticker</TableHead>
+                <TableHead className="text-muted-foreground">Fecha</TableHead>
+                <TableHead className="text-muted-foreground text-right">Precio</TableHead>
+                <TableHead className="text-muted-foreground">Nota</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {overrides.length === 0 ? (
+                <TableRow className="border-border">
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No hay precios manuales
+                  </TableCell>
+                </TableRow>
+              ) : (
+                overrides.map(override => (
+                  <TableRow key={`${override.symbol}-${override.date}`} className="border-border">
+                    <TableCell className="font-semibold text-foreground">{override.symbol}</TableCell>
+                    <TableCell className="text-foreground">{override.date}</TableCell>
+                    <TableCell className="text-right text-foreground">${override.price.toFixed(4)}</TableCell>
+                    <TableCell className="text-muted-foreground">{override.note}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemove(override)}
+                        title="Eliminar precio manual">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex justify-between">
+          <Button variant="outline" asChild>
+            <label className="cursor-pointer">
+              <Upload className="mr-2 h-4 w-4" />
+              Importar JSON
+              <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            </label>
+          </Button>
+          <Button variant="outline" onClick={handleExport} disabled={overrides.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Exportar JSON
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
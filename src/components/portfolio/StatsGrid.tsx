@@ -1,11 +1,37 @@
+import { useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
-import { TradeStats } from '@/types/trade';
+import { Input } from '@/components/ui/input';
+import { PortfolioRiskStats, ReturnMethod, TradeStats } from '@/types/trade';
+import { PortfolioReturns, RETURN_METHODS } from '@/lib/returns';
 
 interface StatsGridProps {
   stats: TradeStats;
+  returns: PortfolioReturns;
+  returnMethod: ReturnMethod;
+  onReturnMethodChange: (method: ReturnMethod) => void;
+  riskStats: PortfolioRiskStats;
+  onRiskFreeRateChange: (rate: number) => void;
 }
 
-export function StatsGrid({ stats }: StatsGridProps) {
+interface StatItem {
+  label: string;
+  value: string;
+  isMain?: boolean;
+  positive?: boolean;
+  negative?: boolean;
+}
+
+export function StatsGrid({
+  stats,
+  returns,
+  returnMethod,
+  onReturnMethodChange,
+  riskStats,
+  onRiskFreeRateChange,
+}: StatsGridProps) {
+  // Typed text of the risk-free rate in %, committed while it parses
+  const [riskFreeRateInput, setRiskFreeRateInput] = useState(String(riskStats.riskFreeRate * 100));
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -19,7 +45,91 @@ export function StatsGrid({ stats }: StatsGridProps) {
     return `${value.toFixed(1)}%`;
   };
 
-  const statItems = [
+  const formatReturn = (value: number) => (isFinite(value) ? `${(value * 100).toFixed(2)}%` : '-');
+
+  const cumulativeReturn = returnMethod === 'twr' ? returns.twr : returns.mwr;
+  const annualizedReturn = returnMethod === 'twr' ? returns.twrAnnualized : returns.mwrAnnualized;
+  const returnItems: StatItem[] = [
+    {
+      label: 'Rentabilidad acumulada',
+      value: formatReturn(cumulativeReturn),
+      isMain: true,
+      positive: cumulativeReturn > 0,
+      negative: cumulativeReturn < 0,
+    },
+    {
+      label: 'Rentabilidad anualizada',
+      value: formatReturn(annualizedReturn),
+      positive: annualizedReturn > 0,
+      negative: annualizedReturn < 0,
+    },
+    {
+      label: 'Base de capital',
+      value: returns.hasCapital ? 'Equity de la cuenta' : 'Posiciones abiertas',
+    },
+  ];
+
+  const formatRatio = (value: number) => (isFinite(value) ? value.toFixed(2) : '-');
+
+  const riskItems: StatItem[] = [
+    { label: 'Volatilidad anualizada', value: formatReturn(riskStats.volatility) },
+    {
+      label: 'Sharpe Ratio',
+      value: formatRatio(riskStats.sharpeRatio),
+      positive: riskStats.sharpeRatio > 0,
+      negative: riskStats.sharpeRatio < 0,
+    },
+    {
+      label: 'Sortino Ratio',
+      value: formatRatio(riskStats.sortinoRatio),
+      positive: riskStats.sortinoRatio > 0,
+      negative: riskStats.sortinoRatio < 0,
+    },
+    {
+      label: 'Calmar Ratio',
+      value: formatRatio(riskStats.calmarRatio),
+      positive: riskStats.calmarRatio > 0,
+      negative: riskStats.calmarRatio < 0,
+    },
+    { label: 'Rentabilidad anualizada (TWR)', value: formatReturn(riskStats.annualizedReturn) },
+    { label: 'Períodos por año', value: riskStats.periodsPerYear > 0 ? riskStats.periodsPerYear.toFixed(0) : '-' },
+  ];
+
+  const handleRiskFreeRateChange = (value: string) => {
+    setRiskFreeRateInput(value);
+    const rate = Number(value);
+    if (value.trim() !== '' && isFinite(rate)) {
+      onRiskFreeRateChange(rate / 100);
+    }
+  };
+
+  const formatFactor = (value: number) => (value === Infinity ? '∞' : formatRatio(value));
+
+  const edgeItems: StatItem[] = [
+    {
+      label: 'Profit Factor',
+      value: formatFactor(stats.profitFactor),
+      positive: stats.profitFactor > 1,
+      negative: stats.profitFactor < 1,
+    },
+    {
+      label: 'Expectancy per Position',
+      value: formatCurrency(stats.expectancy),
+      positive: stats.expectancy > 0,
+      negative: stats.expectancy < 0,
+    },
+    { label: 'Payoff Ratio (Avg Win / Avg Loss)', value: formatFactor(stats.payoffRatio) },
+    {
+      label: 'Kelly Fraction',
+      value: formatPercent(stats.kellyFraction * 100),
+      positive: stats.kellyFraction > 0,
+      negative: stats.kellyFraction < 0,
+    },
+    { label: 'Max Consecutive Wins', value: stats.maxConsecutiveWins.toString(), positive: true },
+    { label: 'Max Consecutive Losses', value: stats.maxConsecutiveLosses.toString(), negative: true },
+  ];
+
+  const statItems: StatItem[] = [
     { label: 'Total Gain/Loss (Closed Positions)', value: formatCurrency(stats.totalPnL), isMain: true },
     { label: 'Largest Gain (Closed)', value: formatCurrency(stats.largestWin), positive: true },
     { label: 'Largest Loss (Closed)', value: formatCurrency(stats.largestLoss), negative: true },
@@ -37,50 +147,94 @@ export function StatsGrid({ stats }: StatsGridProps) {
     },
   ];
 
+  const renderSectionHeader = (title: string, actions?: React.ReactNode) => (
+    <div className="flex items-center justify-between border-y border-border/50 bg-secondary/10 px-6 py-3">
+      <span className="text-xs uppercase tracking-wider font-semibold text-muted-foreground">{title}</span>
+      {actions}
+    </div>
+  );
+
+  const renderItems = (items: StatItem[]) => (
+    <div className="grid grid-cols-1 md:grid-cols-3">
+      {items.map((item, index) => (
+        <div
+          key={index}
+          className={`
+            group relative p-6 border-border transition-all duration-300
+            hover:bg-gradient-to-br hover:from-card hover:to-secondary/30
+            ${index % 3 !== 2 ? 'md:border-r' : ''}
+            ${index < items.length - 3 ? 'border-b' : ''}
+          `}>
+          <div className="relative z-10">
+            <div className="text-muted-foreground text-xs uppercase tracking-wider mb-2 font-medium">{item.label}</div>
+            <div
+              className={`
+              font-bold transition-all duration-300
+              ${item.isMain ? 'text-2xl' : 'text-xl'}
+              ${item.positive ? 'text-success group-hover:glow-success' : ''}
+              ${item.negative ? 'text-destructive group-hover:glow-destructive' : ''}
+              ${!item.positive && !item.negative && !item.isMain ? 'text-foreground' : ''}
+            `}>
+              {item.value}
+            </div>
+          </div>
+          {/* Subtle gradient overlay on hover */}
+          <div
+            className={`
+            absolute inset-0 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none
+            ${item.positive ? 'bg-gradient-to-br from-success/5 to-transparent' : ''}
+            ${item.negative ? 'bg-gradient-to-br from-destructive/5 to-transparent' : ''}
+          `}></div>
+        </div>
+      ))}
+    </div>
+  );
+
   return (
     <Card className="border-border bg-card premium-card shadow-premium overflow-hidden">
       <div className="border-b border-border/50 bg-gradient-to-r from-card to-secondary/20 px-6 py-4">
         <h3 className="text-lg font-bold text-foreground">📊 Estadísticas de Trading</h3>
         <p className="text-sm text-muted-foreground mt-1">
-          Basadas en posiciones cerradas • Incluye todo el historial de trading
+          Rentabilidad sobre la curva mark-to-market • Estadísticas de posiciones cerradas de todo el historial
         </p>
       </div>
       <CardContent className="p-0">
-        <div className="grid grid-cols-1 md:grid-cols-3">
-          {statItems.map((item, index) => (
-            <div
-              key={index}
-              className={`
-                group relative p-6 border-border transition-all duration-300
-                hover:bg-gradient-to-br hover:from-card hover:to-secondary/30
-                ${index % 3 !== 2 ? 'md:border-r' : ''}
-                ${index < 6 ? 'border-b' : ''}
-              `}>
-              <div className="relative z-10">
-                <div className="text-muted-foreground text-xs uppercase tracking-wider mb-2 font-medium">
-                  {item.label}
-                </div>
-                <div
-                  className={`
-                  font-bold transition-all duration-300
-                  ${item.isMain ? 'text-2xl' : 'text-xl'}
-                  ${item.positive ? 'text-success group-hover:glow-success' : ''}
-                  ${item.negative ? 'text-destructive group-hover:glow-destructive' : ''}
-                  ${!item.positive && !item.negative && !item.isMain ? 'text-foreground' : ''}
-                `}>
-                  {item.value}
-                </div>
-              </div>
-              {/* Subtle gradient overlay on hover */}
-              <div
-                className={`
-                absolute inset-0 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none
-                ${item.positive ? 'bg-gradient-to-br from-success/5 to-transparent' : ''}
-                ${item.negative ? 'bg-gradient-to-br from-destructive/5 to-transparent' : ''}
-              `}></div>
-            </div>
-          ))}
-        </div>
+        {renderSectionHeader(
+          'Rentabilidad',
+          <div className="flex items-center gap-1 bg-secondary/50 p-1 rounded-lg border border-border/50">
+            {RETURN_METHODS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => onReturnMethodChange(option.value)}
+                className={`px-3 py-1.5 text-xs font-semibold rounded-md transition-all duration-300 ${
+                  returnMethod === option.value
+                    ? 'bg-success/20 text-success shadow-md border border-success/30'
+                    : 'text-muted-foreground hover:text-foreground hover:bg-card/50'
+                }`}>
+                {option.label}
+              </button>
+            ))}
+          </div>,
+        )}
+        {renderItems(returnItems)}
+        {renderSectionHeader(
+          'Riesgo',
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            Tasa libre de riesgo anual (%)
+            <Input
+              type="number"
+              step="0.1"
+              value={riskFreeRateInput}
+              onChange={e => handleRiskFreeRateChange(e.target.value)}
+              className="h-8 w-20 bg-secondary border-border"
+            />
+          </label>,
+        )}
+        {renderItems(riskItems)}
+        {renderSectionHeader('Posiciones cerradas')}
+        {renderItems(statItems)}
+        {renderSectionHeader('Ventaja por operación')}
+        {renderItems(edgeItems)}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,33 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PortfolioSummary, formatPortfolioLabel } from '@/lib/tradeCalculations';
+
+interface TargetPortfolioSelectProps {
+  id: string;
+  portfolios: PortfolioSummary[];
+  value: string;
+  onChange: (portfolioId: string) => void;
+}
+
+// Portfolio that receives new records when they are entered from the aggregate view
+export function TargetPortfolioSelect({ id, portfolios, value, onChange }: TargetPortfolioSelectProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>
+        Portafolio destino<span className="text-destructive"> *</span>
+      </Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id} className="bg-secondary border-border">
+          <SelectValue placeholder="Seleccionar portafolio" />
+        </SelectTrigger>
+        <SelectContent>
+          {portfolios.map(portfolio => (
+            <SelectItem key={portfolio.id} value={portfolio.id}>
+              {formatPortfolioLabel(portfolio)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Trade } from '@/types/trade';
-import { ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
+import { ArrowUpDown, ArrowUp, ArrowDown, AlertTriangle } from 'lucide-react';
 
 interface TradesTableProps {
   trades: Trade[];
@@ -31,6 +31,8 @@ export function TradesTable({ trades }: TradesTableProps) {
     }
   };
 
+  const overClosedTrades = trades.filter(t => t.overClosedQuantity);
+
   const sortedTrades = [...trades].sort((a, b) => {
     let comparison = 0;
 
@@ -75,6 +77,12 @@ export function TradesTable({ trades }: TradesTableProps) {
           📋 Historial Completo de Transacciones ({sortedTrades.length})
         </CardTitle>
         <p className="text-xs text-muted-foreground mt-1">Incluye todas las compras, ventas y cierres de posiciones</p>
+        {overClosedTrades.length > 0 && (
+          <p className="text-xs text-warning mt-1 flex items-center gap-1">
+            <AlertTriangle className="h-3.5 w-3.5" />
+            {overClosedTrades.length} cierres exceden la posición abierta; solo se cerró la cantidad disponible
+          </p>
+        )}
       </CardHeader>
       <CardContent>
         <div className="overflow-x-auto rounded-lg">
@@ -164,6 +172,13 @@ export function TradesTable({ trades }: TradesTableProps) {
                     `}>
                       {trade.side}
                     </span>
+                    {trade.overClosedQuantity && (
+                      <span
+                        className="ml-2 inline-flex align-middle text-warning"
+                        title={`Cierre excede la posición abierta en ${trade.overClosedQuantity.toFixed(4)}`}>
+                        <AlertTriangle className="h-4 w-4" />
+                      </span>
+                    )}
                   </TableCell>
                   <TableCell
                     className={`
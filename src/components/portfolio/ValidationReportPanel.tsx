@@ -0,0 +1,69 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ValidationReport } from '@/lib/firebaseSchema';
+
+interface ValidationReportPanelProps {
+  report: ValidationReport;
+}
+
+const SOURCE_FILES = {
+  transaction_portfolio: 'transaction_portfolio.json',
+  closed_transactions: 'closed_transactions.json',
+};
+
+export function ValidationReportPanel({ report }: ValidationReportPanelProps) {
+  if (report.rejected.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-destructive/40 bg-card premium-card shadow-premium overflow-hidden">
+      <CardHeader>
+        <CardTitle className="text-sm uppercase tracking-wider font-semibold text-destructive">
+          ⚠️ Registros en cuarentena ({report.rejected.length})
+        </CardTitle>
+        <p className="text-xs text-muted-foreground mt-1">
+          {report.accepted} transacciones válidas • Los registros rechazados se excluyen de todos los cálculos
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="max-h-80 overflow-auto rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border bg-secondary/30">
+                <TableHead className="text-xs uppercase tracking-wider text-muted-foreground font-semibold">
+                  Archivo
+                </TableHead>
+                <TableHead className="text-xs uppercase tracking-wider text-muted-foreground font-semibold">
+                  Índice
+                </TableHead>
+                <TableHead className="text-xs uppercase tracking-wider text-muted-foreground font-semibold">
+                  ID
+                </TableHead>
+                <TableHead className="text-xs uppercase tracking-wider text-muted-foreground font-semibold">
+                  Symbol
+                </TableHead>
+                <TableHead className="text-xs uppercase tracking-wider text-muted-foreground font-semibold">
+                  Motivo
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.rejected.map(record => (
+                <TableRow key={`${record.source}-${record.index}`} className="border-border">
+                  <TableCell className="text-muted-foreground text-sm">{SOURCE_FILES[record.source]}</TableCell>
+                  <TableCell className="text-muted-foreground font-mono text-sm">
+                    {record.index >= 0 ? record.index : '-'}
+                  </TableCell>
+                  <TableCell className="text-foreground font-mono text-sm">{record.id || '-'}</TableCell>
+                  <TableCell className="text-foreground font-bold">{record.ticker || '-'}</TableCell>
+                  <TableCell className="text-destructive text-sm">{record.reasons.join(' • ')}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+import { CumulativePnLPoint } from '@/types/trade';
+import { PositionLedger, getOpenPositionsAt } from './positionLedger';
+import { OpenPosition } from './tradeCalculations';
+
+export type AllocationGroup = 'assetType' | 'symbol';
+
+export const ALLOCATION_GROUPS: { value: AllocationGroup; label: string }[] = [
+  { value: 'assetType', label: 'Tipo de activo' },
+  { value: 'symbol', label: 'Activo' },
+];
+
+// Slice colors in order; the merged 'Otros' slice always takes the last one
+export const ALLOCATION_COLORS = [
+  'hsl(var(--chart-positive))',
+  'hsl(var(--chart-blue))',
+  'hsl(var(--chart-gold))',
+  'hsl(var(--chart-violet))',
+  'hsl(var(--chart-cyan))',
+  'hsl(var(--chart-pink))',
+  'hsl(var(--chart-orange))',
+  'hsl(var(--chart-negative))',
+  'hsl(var(--chart-neutral))',
+];
+
+export const OTHERS_GROUP = 'Otros';
+const UNKNOWN_ASSET_TYPE = 'Sin tipo';
+// Groups beyond this are merged into 'Otros' so the charts stay readable
+const MAX_GROUPS = ALLOCATION_COLORS.length - 1;
+
+export interface AllocationSlice {
+  name: string;
+  marketValue: number;
+  // Share of the gross market value of the open positions, in %
+  weight: number;
+  // % of the portfolio assigned to the open lots when they were bought; undefined when the trades did not record it
+  entryAllocation?: number;
+}
+
+// One row per valuation point with the weight (%) of every group, keyed by group name
+export type AllocationHistoryRow = { date: string } & { [group: string]: number | string };
+
+export interface AllocationHistory {
+  groups: string[];
+  rows: AllocationHistoryRow[];
+}
+
+// Colors follow the order of the groups; 'Otros' always gets the last one
+export function getAllocationColor(name: string, index: number): string {
+  return name === OTHERS_GROUP ? ALLOCATION_COLORS[ALLOCATION_COLORS.length - 1] : ALLOCATION_COLORS[index];
+}
+
+export function getGroupName(holding: { symbol: string; assetType?: string }, group: AllocationGroup): string {
+  return group === 'symbol' ? holding.symbol : holding.assetType || UNKNOWN_ASSET_TYPE;
+}
+
+// Largest groups by value, the rest are reported under OTHERS_GROUP
+export function getTopGroups(values: Map<string, number>): Set<string> {
+  const sorted = Array.from(values.entries()).sort((a, b) => b[1] - a[1]);
+  return new Set((sorted.length > MAX_GROUPS + 1 ? sorted.slice(0, MAX_GROUPS) : sorted).map(([name]) => name));
+}
+
+/*
+ * Allocation each open position got when its remaining lots were opened, keyed by position. Firestore trades carry the
+ * % of the portfolio assigned to them; a lot that was partly closed keeps the same fraction of its trade's allocation.
+ */
+export function getEntryAllocations(ledger: PositionLedger, timestamp: number): { [positionKey: string]: number } {
+  const allocationByTrade = new Map(
+    ledger.trades.filter(trade => trade.allocation !== undefined).map(trade => [trade.id, trade.allocation]),
+  );
+  const entryAllocations: { [positionKey: string]: number } = {};
+
+  for (const position of getOpenPositionsAt(ledger, timestamp)) {
+    const lots = position.lots.filter(lot => allocationByTrade.has(lot.tradeId));
+    if (lots.length > 0) {
+      entryAllocations[position.key] = lots.reduce(
+        (sum, lot) => sum + (allocationByTrade.get(lot.tradeId) * lot.quantity) / lot.originalQuantity,
+        0,
+      );
+    }
+  }
+
+  return entryAllocations;
+}
+
+// Current exposure by asset type or by ticker, largest first
+export function calculateAllocation(
+  positions: OpenPosition[],
+  group: AllocationGroup,
+  entryAllocations: { [positionKey: string]: number },
+): AllocationSlice[] {
+  const slices = new Map<string, { marketValue: number; entryAllocation?: number }>();
+
+  for (const position of positions) {
+    const name = getGroupName(position, group);
+    const slice = slices.get(name) ?? { marketValue: 0 };
+    slice.marketValue += position.marketValue;
+    if (position.key in entryAllocations) {
+      slice.entryAllocation = (slice.entryAllocation ?? 0) + entryAllocations[position.key];
+    }
+    slices.set(name, slice);
+  }
+
+  const topGroups = getTopGroups(new Map(Array.from(slices.entries()).map(([name, s]) => [name, s.marketValue])));
+  const merged = new Map<string, { marketValue: number; entryAllocation?: number }>();
+
+  for (const [name, slice] of slices) {
+    const mergedName = topGroups.has(name) ? name : OTHERS_GROUP;
+    const target = merged.get(mergedName) ?? { marketValue: 0 };
+    target.marketValue += slice.marketValue;
+    if (slice.entryAllocation !== undefined) {
+      target.entryAllocation = (target.entryAllocation ?? 0) + slice.entryAllocation;
+    }
+    merged.set(mergedName, target);
+  }
+
+  const totalValue = positions.reduce((sum, position) => sum + position.marketValue, 0);
+
+  return Array.from(merged.entries())
+    .map(([name, slice]) => ({
+      name,
+      marketValue: slice.marketValue,
+      weight: totalValue > 0 ? (slice.marketValue / totalValue) * 100 : 0,
+      entryAllocation: slice.entryAllocation,
+    }))
+    .sort((a, b) => (a.name === OTHERS_GROUP ? 1 : b.name === OTHERS_GROUP ? -1 : b.marketValue - a.marketValue));
+}
+
+// Weights of every group at each point of the equity curve, from the holdings valued at that point
+export function calculateAllocationHistory(points: CumulativePnLPoint[], group: AllocationGroup): AllocationHistory {
+  const totals = new Map<string, number>();
+  for (const point of points) {
+    for (const holding of point.holdings ?? []) {
+      const name = getGroupName(holding, group);
+      totals.set(name, (totals.get(name) ?? 0) + holding.marketValue);
+    }
+  }
+
+  const topGroups = getTopGroups(totals);
+  const groups = Array.from(topGroups);
+  if (topGroups.size < totals.size) {
+    groups.push(OTHERS_GROUP);
+  }
+
+  const rows = points
+    .filter(point => point.holdings)
+    .map(point => {
+      const row: AllocationHistoryRow = { date: point.date };
+      const totalValue = point.holdings.reduce((sum, holding) => sum + holding.marketValue, 0);
+
+      groups.forEach(name => {
+        row[name] = 0;
+      });
+      for (const holding of point.holdings) {
+        const name = getGroupName(holding, group);
+        const key = topGroups.has(name) ? name : OTHERS_GROUP;
+        row[key] = (row[key] as number) + (totalValue > 0 ? (holding.marketValue / totalValue) * 100 : 0);
+      }
+
+      return row;
+    });
+
+  return { groups, rows };
+}
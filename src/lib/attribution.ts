@@ -0,0 +1,89 @@
+import { CumulativePnLPoint, Trade } from '@/types/trade';
+import { AllocationGroup, OTHERS_GROUP, getGroupName, getTopGroups } from './allocation';
+import { getTradeTimestamp } from './positionLedger';
+
+// One row per month with the P&L contributed by every group, keyed by group name
+export type AttributionRow = { month: string; total: number } & { [group: string]: number | string };
+
+export interface Attribution {
+  groups: string[];
+  rows: AttributionRow[];
+}
+
+/*
+ * Monthly P&L broken down by ticker or asset type. Each group contributes the P&L its trades realized during the month
+ * (commissions included) plus the change in unrealized P&L of its open positions between valuations, so the
+ * contributions add up to the change of the equity curve's P&L.
+ */
+export function calculateAttribution(
+  points: CumulativePnLPoint[],
+  trades: Trade[],
+  group: AllocationGroup,
+): Attribution {
+  const months = new Map<string, Map<string, number>>();
+  const totals = new Map<string, number>();
+  let previousUnrealized = new Map<string, number>();
+  let previousTimestamp = Number.NEGATIVE_INFINITY;
+
+  const add = (month: string, name: string, pnl: number) => {
+    const contributions = months.get(month) ?? new Map<string, number>();
+    contributions.set(name, (contributions.get(name) ?? 0) + pnl);
+    months.set(month, contributions);
+    totals.set(name, (totals.get(name) ?? 0) + Math.abs(pnl));
+  };
+
+  for (const point of points.filter(p => p.holdings)) {
+    const [month, , year] = point.date.split('/');
+    const monthKey = `${year}-${month}`;
+    // Valuations are taken at the end of their day
+    const timestamp = new Date(`${point.date} 23:59:59`).getTime();
+
+    for (const trade of trades) {
+      const tradeTimestamp = getTradeTimestamp(trade);
+      if (trade.pnl && tradeTimestamp > previousTimestamp && tradeTimestamp <= timestamp) {
+        add(monthKey, getGroupName(trade, group), trade.pnl);
+      }
+    }
+
+    const unrealized = new Map<string, number>();
+    for (const holding of point.holdings) {
+      const name = getGroupName(holding, group);
+      unrealized.set(name, (unrealized.get(name) ?? 0) + holding.unrealizedPnL);
+    }
+    for (const name of new Set([...unrealized.keys(), ...previousUnrealized.keys()])) {
+      const change = (unrealized.get(name) ?? 0) - (previousUnrealized.get(name) ?? 0);
+      if (change !== 0) {
+        add(monthKey, name, change);
+      }
+    }
+
+    if (!months.has(monthKey)) {
+      months.set(monthKey, new Map());
+    }
+    previousUnrealized = unrealized;
+    previousTimestamp = timestamp;
+  }
+
+  const topGroups = getTopGroups(totals);
+  const groups = Array.from(topGroups);
+  if (topGroups.size < totals.size) {
+    groups.push(OTHERS_GROUP);
+  }
+
+  const rows = Array.from(months.entries()).map(([month, contributions]) => {
+    const row: AttributionRow = { month, total: 0 };
+    groups.forEach(name => {
+      row[name] = 0;
+    });
+
+    for (const [name, pnl] of contributions) {
+      const key = topGroups.has(name) ? name : OTHERS_GROUP;
+      row[key] = (row[key] as number) + pnl;
+      row.total += pnl;
+    }
+
+    return row;
+  });
+
+  return { groups, rows };
+}
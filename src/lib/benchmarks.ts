@@ -0,0 +1,155 @@
+import { CumulativePnLPoint } from '@/types/trade';
+import { getCapitalPeriods, calculateReturnSeries } from './returns';
+import { mean, standardDeviation } from './riskMetrics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SELECTED_BENCHMARKS_KEY = 'portfolio-benchmarks';
+
+export interface Benchmark {
+  symbol: string;
+  label: string;
+  // Asset type sent to the price provider (see PriceRequest)
+  assetType: string;
+  color: string;
+}
+
+export const BENCHMARKS: Benchmark[] = [
+  { symbol: 'SPY', label: 'S&P 500 (SPY)', assetType: 'ETF', color: 'hsl(var(--chart-neutral))' },
+  { symbol: 'QQQ', label: 'Nasdaq 100 (QQQ)', assetType: 'ETF', color: 'hsl(var(--chart-gold))' },
+  { symbol: 'BTC', label: 'Bitcoin (BTC)', assetType: 'Cripto', color: 'hsl(var(--chart-violet))' },
+];
+
+// Symbols of the benchmarks drawn next to the portfolio; unknown or malformed entries are dropped
+export function loadSelectedBenchmarks(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SELECTED_BENCHMARKS_KEY) || '[]');
+    return Array.isArray(stored) ? BENCHMARKS.map(b => b.symbol).filter(symbol => stored.includes(symbol)) : [];
+  } catch (error) {
+    console.error('Error reading selected benchmarks:', error);
+    return [];
+  }
+}
+
+export function saveSelectedBenchmarks(symbols: string[]) {
+  localStorage.setItem(SELECTED_BENCHMARKS_KEY, JSON.stringify(symbols));
+}
+
+// Closing price of each benchmark at every point of the equity curve (0 when the provider had none)
+export type BenchmarkPrices = { [symbol: string]: number[] };
+
+export interface BenchmarkStats {
+  // Annualized Jensen's alpha over the risk-free rate, as a fraction
+  alpha: number;
+  beta: number;
+  correlation: number;
+  // Annualized standard deviation of the return difference, as a fraction
+  trackingError: number;
+}
+
+export interface BenchmarkCurve {
+  benchmark: Benchmark;
+  // The benchmark as if it had received the portfolio's capital flows, on the same dates
+  points: CumulativePnLPoint[];
+  stats: BenchmarkStats;
+}
+
+// Missing closes take the previous one; leading gaps take the first known close
+function fillPrices(prices: number[]): number[] {
+  const firstKnown = prices.find(price => price > 0) ?? 0;
+  let last = firstKnown;
+
+  return prices.map(price => {
+    if (price > 0) {
+      last = price;
+    }
+    return last;
+  });
+}
+
+/*
+ * Replay the portfolio's capital flows into the benchmark: every deposit (or, without a cash ledger, every net
+ * purchase) buys benchmark units at that date's close and every withdrawal sells them. The resulting curve starts with
+ * the same capital and receives money at the same times, so its P&L, equity and returns compare one to one with the
+ * portfolio's. A withdrawal never sells more units than the benchmark holds (net sales funded by the portfolio's
+ * gains would otherwise leave it short), so past that point only the units held are withdrawn.
+ */
+function calculateBenchmarkPoints(points: CumulativePnLPoint[], prices: number[]): CumulativePnLPoint[] {
+  const { periods } = getCapitalPeriods(points);
+  let units = 0;
+  let netFlows = 0;
+
+  return periods.map((period, index) => {
+    const flow = Math.max(period.flow, -units * prices[index]);
+    units = Math.max(units + flow / prices[index], 0);
+    netFlows += flow;
+    const equity = units * prices[index];
+
+    return {
+      date: points[index].date,
+      value: equity - netFlows,
+      equity,
+      netDeposits: netFlows,
+      exposure: equity,
+    };
+  });
+}
+
+function toPeriodReturns(growth: number[]): number[] {
+  return growth.slice(1).map((value, index) => (growth[index] > 0 ? value / growth[index] - 1 : 0));
+}
+
+// Regression of the portfolio's periodic TWR returns on the benchmark's price returns
+function calculateBenchmarkStats(points: CumulativePnLPoint[], prices: number[], riskFreeRate: number): BenchmarkStats {
+  const portfolioReturns = toPeriodReturns(calculateReturnSeries(points, 'twr').map(twr => 1 + twr));
+  const benchmarkReturns = toPeriodReturns(prices);
+  const years =
+    (new Date(points[points.length - 1].date).getTime() - new Date(points[0].date).getTime()) / DAY_MS / 365;
+
+  if (portfolioReturns.length < 2 || years <= 0) {
+    return { alpha: NaN, beta: NaN, correlation: NaN, trackingError: NaN };
+  }
+
+  const periodsPerYear = portfolioReturns.length / years;
+  const periodRiskFreeRate = Math.pow(1 + riskFreeRate, 1 / periodsPerYear) - 1;
+  const portfolioMean = mean(portfolioReturns);
+  const benchmarkMean = mean(benchmarkReturns);
+
+  const covariance =
+    portfolioReturns.reduce(
+      (sum, value, index) => sum + (value - portfolioMean) * (benchmarkReturns[index] - benchmarkMean),
+      0,
+    ) /
+    (portfolioReturns.length - 1);
+  const portfolioDeviation = standardDeviation(portfolioReturns);
+  const benchmarkDeviation = standardDeviation(benchmarkReturns);
+  const beta = benchmarkDeviation > 0 ? covariance / benchmarkDeviation ** 2 : NaN;
+
+  return {
+    alpha: (portfolioMean - periodRiskFreeRate - beta * (benchmarkMean - periodRiskFreeRate)) * periodsPerYear,
+    beta,
+    correlation:
+      portfolioDeviation > 0 && benchmarkDeviation > 0 ? covariance / (portfolioDeviation * benchmarkDeviation) : NaN,
+    trackingError:
+      standardDeviation(portfolioReturns.map((value, index) => value - benchmarkReturns[index])) *
+      Math.sqrt(periodsPerYear),
+  };
+}
+
+// Curves and statistics of the benchmarks that have prices for the portfolio's valuation dates
+export function buildBenchmarkCurves(
+  points: CumulativePnLPoint[],
+  prices: BenchmarkPrices,
+  riskFreeRate: number,
+): BenchmarkCurve[] {
+  return BENCHMARKS.filter(
+    benchmark =>
+      prices[benchmark.symbol]?.length === points.length && prices[benchmark.symbol].some(price => price > 0),
+  ).map(benchmark => {
+    const filledPrices = fillPrices(prices[benchmark.symbol]);
+    return {
+      benchmark,
+      points: calculateBenchmarkPoints(points, filledPrices),
+      stats: calculateBenchmarkStats(points, filledPrices, riskFreeRate),
+    };
+  });
+}
@@ -0,0 +1,169 @@
+import { CashMovement } from '@/types/trade';
+import { ALL_PORTFOLIOS } from './tradeCalculations';
+import { PositionLedger, getOpenPositionsAt } from './positionLedger';
+
+const CASH_MOVEMENTS_KEY = 'portfolio-cash-movements';
+
+export const CASH_MOVEMENT_LABELS: Record<CashMovement['type'], string> = {
+  initial: 'Saldo inicial',
+  deposit: 'Depósito',
+  withdrawal: 'Retiro',
+};
+
+export interface CashLedgerEntry {
+  timestamp: number;
+  kind: CashMovement['type'] | 'trade';
+  // Signed cash effect: positive adds cash, negative removes it
+  amount: number;
+  // Cash balance after this entry
+  balance: number;
+  // Deposits minus withdrawals (including the starting balance) after this entry
+  netDeposits: number;
+  movementId?: string;
+  tradeId?: string;
+}
+
+export interface CashLedger {
+  entries: CashLedgerEntry[];
+  // True when any deposit, withdrawal or starting balance was recorded
+  hasCapital: boolean;
+}
+
+export interface CashSummary {
+  startingBalance: number;
+  deposits: number;
+  withdrawals: number;
+  tradeCashFlow: number;
+  cashBalance: number;
+  buyingPower: number;
+}
+
+export function loadCashMovements(): CashMovement[] {
+  try {
+    const stored = localStorage.getItem(CASH_MOVEMENTS_KEY);
+    return stored ? (JSON.parse(stored) as CashMovement[]) : [];
+  } catch (error) {
+    console.error('Error reading cash movements:', error);
+    return [];
+  }
+}
+
+export function saveCashMovements(movements: CashMovement[]) {
+  localStorage.setItem(CASH_MOVEMENTS_KEY, JSON.stringify(movements));
+}
+
+export function getCashMovementsForPortfolio(movements: CashMovement[], portfolioId: string): CashMovement[] {
+  if (portfolioId === ALL_PORTFOLIOS) {
+    return movements;
+  }
+
+  return movements.filter(m => m.portfolioId === portfolioId);
+}
+
+// The starting balance sits before every trade, whatever date it was entered with
+function getMovementTimestamp(movement: CashMovement): number {
+  return movement.type === 'initial' ? Number.NEGATIVE_INFINITY : new Date(`${movement.date} 00:00:00`).getTime();
+}
+
+/*
+ * Cash effect of each trade:
+ *
+ * - Compra pays quantity x price, Venta receives it (both for opening and for reducing a position).
+ * - Cierre receives the proceeds of the long lots it closes and pays to buy back the short lots it covers.
+ *   Over-closed quantity never executed, so it moves no cash.
+ * - Commissions are always paid.
+ */
+export function buildCashLedger(ledger: PositionLedger, movements: CashMovement[]): CashLedger {
+  const events: Omit<CashLedgerEntry, 'balance' | 'netDeposits'>[] = [];
+
+  for (const movement of movements) {
+    events.push({
+      timestamp: getMovementTimestamp(movement),
+      kind: movement.type,
+      amount: movement.type === 'withdrawal' ? -Math.abs(movement.amount) : Math.abs(movement.amount),
+      movementId: movement.id,
+    });
+  }
+
+  for (const { timestamp, trade, result } of ledger.entries) {
+    let amount: number;
+
+    if (trade.side === 'Cierre') {
+      amount = result.closures.reduce(
+        (sum, closure) => sum + (closure.direction === 'long' ? 1 : -1) * closure.quantity * trade.price,
+        0,
+      );
+    } else {
+      const notional = Math.abs(trade.quantity) * trade.price;
+      amount = trade.side === 'Compra' ? -notional : notional;
+    }
+
+    events.push({ timestamp, kind: 'trade', amount: amount - trade.commission, tradeId: trade.id });
+  }
+
+  // Stable sort keeps deposits made on a trade day ahead of that day's trades
+  events.sort((a, b) => a.timestamp - b.timestamp);
+
+  let balance = 0;
+  let netDeposits = 0;
+  const entries = events.map(event => {
+    balance += event.amount;
+    if (event.kind !== 'trade') {
+      netDeposits += event.amount;
+    }
+    return { ...event, balance, netDeposits };
+  });
+
+  return { entries, hasCapital: movements.length > 0 };
+}
+
+// Index of the last entry at or before `timestamp`, or -1
+function findLastEntryIndex(entries: CashLedgerEntry[], timestamp: number): number {
+  let low = 0;
+  let high = entries.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (entries[mid].timestamp <= timestamp) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
+
+export function getCashBalanceAt(cashLedger: CashLedger, timestamp: number): number {
+  const index = findLastEntryIndex(cashLedger.entries, timestamp);
+  return index >= 0 ? cashLedger.entries[index].balance : 0;
+}
+
+export function getNetDepositsAt(cashLedger: CashLedger, timestamp: number): number {
+  const index = findLastEntryIndex(cashLedger.entries, timestamp);
+  return index >= 0 ? cashLedger.entries[index].netDeposits : 0;
+}
+
+// Buying power of a cash account: the cash balance minus the short sale proceeds held as collateral
+export function summarizeCash(cashLedger: CashLedger, ledger: PositionLedger, timestamp: number): CashSummary {
+  const sumOf = (kind: CashLedgerEntry['kind']) =>
+    cashLedger.entries
+      .filter(entry => entry.kind === kind && entry.timestamp <= timestamp)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+
+  const cashBalance = getCashBalanceAt(cashLedger, timestamp);
+  const shortCollateral = getOpenPositionsAt(ledger, timestamp)
+    .filter(position => position.direction === 'short')
+    .reduce((sum, position) => sum + position.costBasis, 0);
+
+  return {
+    startingBalance: sumOf('initial'),
+    deposits: sumOf('deposit'),
+    withdrawals: -sumOf('withdrawal'),
+    tradeCashFlow: sumOf('trade'),
+    cashBalance,
+    buyingPower: Math.max(0, cashBalance - shortCollateral),
+  };
+}
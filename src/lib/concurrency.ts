@@ -0,0 +1,60 @@
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Called before each retry with the attempt number (1-based) and the failure
+  onRetry?: (attempt: number, error: unknown) => void;
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Run `operation`, retrying failures with exponential backoff (base, 2x base, 4x base... capped at maxDelayMs)
+export async function retryWithBackoff<T>(
+  operation: () => Promise<T>,
+  options: Partial<RetryOptions> = {},
+): Promise<T> {
+  const { retries, baseDelayMs, maxDelayMs, onRetry } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= retries) {
+        throw error;
+      }
+
+      onRetry?.(attempt + 1, error);
+      await wait(Math.min(baseDelayMs * 2 ** attempt, maxDelayMs));
+    }
+  }
+}
+
+// Map `items` through `worker` with at most `limit` calls in flight; results keep the input order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+
+  return results;
+}
@@ -0,0 +1,318 @@
+import { Trade, TradeImportRow } from '@/types/trade';
+
+export type CsvField = 'date' | 'time' | 'ticker' | 'side' | 'quantity' | 'price' | 'commission' | 'assetType';
+
+export type CsvDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export interface CsvColumnMapping {
+  columns: Record<CsvField, number | null>;
+  dateFormat: CsvDateFormat;
+  // Asset type of the rows without an asset type column (or with that cell empty)
+  defaultAssetType: string;
+}
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+export const CSV_FIELDS: { field: CsvField; label: string; required: boolean }[] = [
+  { field: 'date', label: 'Fecha', required: true },
+  { field: 'time', label: 'Hora', required: false },
+  { field: 'ticker', label: 'Ticker', required: true },
+  { field: 'side', label: 'Operación', required: true },
+  { field: 'quantity', label: 'Cantidad', required: true },
+  { field: 'price', label: 'Precio', required: true },
+  { field: 'commission', label: 'Comisión', required: false },
+  { field: 'assetType', label: 'Tipo de activo', required: false },
+];
+
+// Asset types of the Firestore dumps; they pick the market the price provider quotes the ticker in
+export const ASSET_TYPES: { value: string; label: string }[] = [
+  { value: 'Stock', label: 'Acción' },
+  { value: 'ETF', label: 'ETF' },
+  { value: 'Cripto', label: 'Cripto' },
+  { value: 'Forex', label: 'Forex' },
+];
+
+// Header aliases used to pre-fill the mapping step (English, Spanish and common broker exports)
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  date: ['date', 'fecha', 'trade date', 'tradedate', 'datetime', 'date/time', 'execution date'],
+  time: ['time', 'hora', 'trade time', 'execution time'],
+  ticker: ['symbol', 'ticker', 'simbolo', 'símbolo', 'instrument', 'asset', 'activo'],
+  side: ['side', 'operation', 'operacion', 'operación', 'action', 'type', 'buy/sell', 'tipo'],
+  quantity: ['quantity', 'qty', 'cantidad', 'amount', 'shares', 'units'],
+  price: ['price', 'precio', 'trade price', 'fill price', 'avg price', 'execution price'],
+  commission: ['commission', 'comision', 'comisión', 'fee', 'fees', 'ibcommission'],
+  assetType: [
+    'asset type',
+    'asset class',
+    'asset category',
+    'assetcategory',
+    'security type',
+    'tipo de activo',
+    'clase de activo',
+  ],
+};
+
+const SIDE_ALIASES: Record<Trade['side'], string[]> = {
+  Compra: ['compra', 'buy', 'b', 'bot', 'bought', 'long'],
+  Venta: ['venta', 'sell', 's', 'sld', 'sold', 'short', 'sell short'],
+  Cierre: ['cierre', 'close', 'c', 'closed', 'exit'],
+};
+
+const ASSET_TYPE_ALIASES: Record<string, string[]> = {
+  Stock: ['stock', 'stocks', 'stk', 'equity', 'share', 'shares', 'accion', 'acción', 'acciones'],
+  ETF: ['etf', 'etfs', 'fund'],
+  Cripto: ['cripto', 'crypto', 'cryptocurrency', 'criptomoneda'],
+  Forex: ['forex', 'fx', 'cash', 'currency', 'divisa', 'divisas'],
+};
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best,
+  );
+}
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and CRLF line endings
+export function parseCsv(text: string): ParsedCsv {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/)[0] || '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field.trim());
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field.trim());
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(value => value !== ''));
+
+  return {
+    headers: nonEmpty[0] || [],
+    rows: nonEmpty.slice(1),
+  };
+}
+
+function guessDateFormat(sample: string | undefined): CsvDateFormat {
+  const parts = (sample || '')
+    .trim()
+    .split(/[ T,]+/)[0]
+    .split(/[-/.]/);
+
+  if (parts[0]?.length === 4) {
+    return 'YYYY-MM-DD';
+  }
+
+  return Number(parts[0]) > 12 ? 'DD/MM/YYYY' : 'MM/DD/YYYY';
+}
+
+export function guessColumnMapping(parsed: ParsedCsv): CsvColumnMapping {
+  const normalizedHeaders = parsed.headers.map(h => h.trim().toLowerCase());
+  const columns = {} as Record<CsvField, number | null>;
+
+  for (const { field } of CSV_FIELDS) {
+    const index = normalizedHeaders.findIndex(h => HEADER_ALIASES[field].includes(h));
+    columns[field] = index >= 0 ? index : null;
+  }
+
+  const dateSample = columns.date !== null ? parsed.rows[0]?.[columns.date] : undefined;
+
+  return { columns, dateFormat: guessDateFormat(dateSample), defaultAssetType: ASSET_TYPES[0].value };
+}
+
+function parseNumber(value: string): number {
+  // Accept "1,234.56", "$1234.56" and "(12.5)" style negatives
+  const isNegative = /^\(.*\)$/.test(value);
+  const cleaned = value.replace(/[()$\s]/g, '').replace(/,(?=\d{3}(\D|$))/g, '');
+  const parsed = Number(cleaned.replace(',', '.'));
+  return isNegative ? -parsed : parsed;
+}
+
+function parseSide(value: string): Trade['side'] | null {
+  const normalized = value.trim().toLowerCase();
+
+  for (const [side, aliases] of Object.entries(SIDE_ALIASES)) {
+    if (aliases.includes(normalized)) {
+      return side as Trade['side'];
+    }
+  }
+
+  return null;
+}
+
+function parseAssetType(value: string): string | null {
+  const normalized = value.trim().toLowerCase();
+  const match = Object.entries(ASSET_TYPE_ALIASES).find(([, aliases]) => aliases.includes(normalized));
+  return match ? match[0] : null;
+}
+
+// Normalize to the MM/DD/YYYY format produced by parseFirebaseJson
+function parseDate(value: string, format: CsvDateFormat): { date: string; time: string | null } | null {
+  const [datePart, ...rest] = value.trim().split(/[ T,]+/);
+  const parts = datePart.split(/[-/.]/).map(Number);
+
+  if (parts.length !== 3 || parts.some(isNaN)) {
+    return null;
+  }
+
+  let year: number, month: number, day: number;
+  if (format === 'YYYY-MM-DD') {
+    [year, month, day] = parts;
+  } else if (format === 'MM/DD/YYYY') {
+    [month, day, year] = parts;
+  } else {
+    [day, month, year] = parts;
+  }
+
+  const parsed = new Date(year, month - 1, day);
+  if (parsed.getFullYear() !== year || parsed.getMonth() !== month - 1 || parsed.getDate() !== day) {
+    return null;
+  }
+
+  const time = rest.find(part => /^\d{1,2}:\d{2}(:\d{2})?$/.test(part)) || null;
+
+  return {
+    date: `${String(month).padStart(2, '0')}/${String(day).padStart(2, '0')}/${year}`,
+    time,
+  };
+}
+
+function normalizeTime(value: string): string | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, hours, minutes, seconds] = match;
+  if (Number(hours) > 23 || Number(minutes) > 59 || Number(seconds || 0) > 59) {
+    return null;
+  }
+
+  return `${hours.padStart(2, '0')}:${minutes}:${seconds || '00'}`;
+}
+
+export function getMissingRequiredFields(mapping: CsvColumnMapping): CsvField[] {
+  return CSV_FIELDS.filter(f => f.required && mapping.columns[f.field] === null).map(f => f.field);
+}
+
+export function mapCsvRows(parsed: ParsedCsv, mapping: CsvColumnMapping): TradeImportRow[] {
+  // Identical rows in one file are distinct executions, told apart by their order of appearance
+  const occurrences = new Map<string, number>();
+
+  return parsed.rows.map((row, index) => {
+    // +2: one for the header line and one for 1-based numbering
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const cell = (field: CsvField) => {
+      const column = mapping.columns[field];
+      return column === null ? '' : row[column] ?? '';
+    };
+
+    const parsedDate = parseDate(cell('date'), mapping.dateFormat);
+    if (!parsedDate) {
+      errors.push(`Fecha inválida "${cell('date')}" (formato esperado ${mapping.dateFormat})`);
+    }
+
+    let time = parsedDate?.time ? normalizeTime(parsedDate.time) : '00:00:00';
+    if (mapping.columns.time !== null && cell('time') !== '') {
+      time = normalizeTime(cell('time'));
+      if (!time) {
+        errors.push(`Hora inválida "${cell('time')}"`);
+      }
+    } else if (!time) {
+      errors.push(`Hora inválida "${parsedDate.time}"`);
+    }
+
+    const symbol = cell('ticker').toUpperCase();
+    if (!symbol) {
+      errors.push('Ticker vacío');
+    }
+
+    const side = parseSide(cell('side'));
+    if (!side) {
+      errors.push(`Operación desconocida "${cell('side')}"`);
+    }
+
+    const quantity = parseNumber(cell('quantity'));
+    if (!isFinite(quantity) || quantity === 0) {
+      errors.push(`Cantidad inválida "${cell('quantity')}"`);
+    }
+
+    const price = parseNumber(cell('price'));
+    if (!isFinite(price) || price <= 0) {
+      errors.push(`Precio inválido "${cell('price')}"`);
+    }
+
+    const commissionCell = cell('commission');
+    const commission = commissionCell === '' ? 0 : Math.abs(parseNumber(commissionCell));
+    if (!isFinite(commission)) {
+      errors.push(`Comisión inválida "${commissionCell}"`);
+    }
+
+    const assetTypeCell = cell('assetType');
+    const assetType = assetTypeCell === '' ? mapping.defaultAssetType : parseAssetType(assetTypeCell);
+    if (!assetType) {
+      errors.push(`Tipo de activo desconocido "${assetTypeCell}"`);
+    }
+
+    if (errors.length > 0) {
+      return { rowNumber, errors };
+    }
+
+    // IDs come from the row's content so re-importing the same file is recognized as already imported
+    const content = [parsedDate.date, time, symbol, side, Math.abs(quantity), price, commission].join('|');
+    const occurrence = (occurrences.get(content) ?? 0) + 1;
+    occurrences.set(content, occurrence);
+
+    return {
+      rowNumber,
+      errors,
+      trade: {
+        id: `csv-${content}-${occurrence}`,
+        date: parsedDate.date,
+        time,
+        symbol,
+        // Same sign convention as parseFirebaseJson: Venta/Cierre reduce the position
+        quantity: side === 'Compra' ? Math.abs(quantity) : -Math.abs(quantity),
+        price,
+        side,
+        commission,
+        assetType,
+      },
+    };
+  });
+}
@@ -54,7 +54,7 @@ interface PositionTrackingEntry {
       shares: number;
       totalCost: number;
       isShort: boolean;
-      transactions: FirebaseTransaction[];
+      transactions?: FirebaseTransaction[];
     };
   };
   timestamp: string;
@@ -222,7 +222,7 @@ class DataLogger {
         shares: number;
         totalCost: number;
         isShort: boolean;
-        transactions: FirebaseTransaction[];
+        transactions?: FirebaseTransaction[];
       };
     },
   ) {
@@ -0,0 +1,122 @@
+import { CumulativePnLPoint } from '@/types/trade';
+import { calculateReturnSeries } from './returns';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DrawdownPoint {
+  date: string;
+  // Distance below the previous peak: USD of P&L and % of the TWR growth index (both <= 0)
+  drawdown: number;
+  drawdownPercent: number;
+}
+
+export interface DrawdownStats {
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  // Peak, trough and recovery of the deepest % drawdown; recoveryDate is null while it has not recovered
+  peakDate: string | null;
+  troughDate: string | null;
+  recoveryDate: string | null;
+  // Days from that trough back to the previous peak, null while it has not recovered
+  recoveryDays: number | null;
+  currentDrawdown: number;
+  currentDrawdownPercent: number;
+  // Days since the last peak (0 at a new high)
+  currentDrawdownDays: number;
+  // Longest stretch spent below a previous peak, counting the ongoing one
+  longestDrawdownDays: number;
+}
+
+export interface DrawdownAnalysis {
+  series: DrawdownPoint[];
+  stats: DrawdownStats;
+}
+
+const EMPTY_STATS: DrawdownStats = {
+  maxDrawdown: 0,
+  maxDrawdownPercent: 0,
+  peakDate: null,
+  troughDate: null,
+  recoveryDate: null,
+  recoveryDays: null,
+  currentDrawdown: 0,
+  currentDrawdownPercent: 0,
+  currentDrawdownDays: 0,
+  longestDrawdownDays: 0,
+};
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+}
+
+/*
+ * Drawdowns of the equity curve with deposits and withdrawals taken out: the USD figures come from the total P&L and
+ * the % figures from the time-weighted growth index, so adding or withdrawing capital never shows up as a gain or a
+ * drawdown.
+ */
+export function calculateDrawdowns(points: CumulativePnLPoint[]): DrawdownAnalysis {
+  if (points.length === 0) {
+    return { series: [], stats: EMPTY_STATS };
+  }
+
+  const growth = calculateReturnSeries(points, 'twr').map(twr => 1 + twr);
+  const stats = { ...EMPTY_STATS };
+  const series: DrawdownPoint[] = [];
+
+  let peakPnL = 0;
+  let peakGrowth = 1;
+  let peakDate = points[0].date;
+  // Deepest point of the drawdown in progress
+  let troughPercent = 0;
+  let troughDate: string | null = null;
+  let episodeIsMax = false;
+
+  points.forEach((point, index) => {
+    peakPnL = Math.max(peakPnL, point.value);
+    const drawdown = point.value - peakPnL;
+
+    if (growth[index] >= peakGrowth) {
+      // New high: the drawdown in progress (if any) has recovered
+      if (troughDate) {
+        stats.longestDrawdownDays = Math.max(stats.longestDrawdownDays, daysBetween(peakDate, point.date));
+        if (episodeIsMax) {
+          stats.recoveryDate = point.date;
+          stats.recoveryDays = daysBetween(troughDate, point.date);
+        }
+      }
+
+      peakGrowth = growth[index];
+      peakDate = point.date;
+      troughPercent = 0;
+      troughDate = null;
+      episodeIsMax = false;
+    }
+
+    const drawdownPercent = (growth[index] / peakGrowth - 1) * 100;
+
+    if (drawdownPercent < troughPercent) {
+      troughPercent = drawdownPercent;
+      troughDate = point.date;
+
+      if (drawdownPercent < stats.maxDrawdownPercent) {
+        stats.maxDrawdownPercent = drawdownPercent;
+        stats.peakDate = peakDate;
+        stats.troughDate = point.date;
+        stats.recoveryDate = null;
+        stats.recoveryDays = null;
+        episodeIsMax = true;
+      }
+    }
+
+    stats.maxDrawdown = Math.min(stats.maxDrawdown, drawdown);
+    series.push({ date: point.date, drawdown, drawdownPercent });
+  });
+
+  const last = series[series.length - 1];
+  stats.currentDrawdown = last.drawdown;
+  stats.currentDrawdownPercent = last.drawdownPercent;
+  stats.currentDrawdownDays = troughDate ? daysBetween(peakDate, last.date) : 0;
+  stats.longestDrawdownDays = Math.max(stats.longestDrawdownDays, stats.currentDrawdownDays);
+
+  return { series, stats };
+}
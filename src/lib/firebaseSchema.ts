@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import { FirebaseTransaction } from './tradeCalculations';
+
+export type FirebaseDumpSource = 'transaction_portfolio' | 'closed_transactions';
+
+export interface RejectedRecord {
+  source: FirebaseDumpSource;
+  index: number;
+  id?: string;
+  ticker?: string;
+  reasons: string[];
+}
+
+export interface DumpValidationResult {
+  valid: FirebaseTransaction[];
+  rejected: RejectedRecord[];
+}
+
+export interface ValidationReport {
+  accepted: number;
+  rejected: RejectedRecord[];
+}
+
+const firestoreTimestampSchema = z.object({
+  _seconds: z.number().int().positive(),
+  _nanoseconds: z.number().int().nonnegative(),
+});
+
+const firestoreReferenceSchema = z
+  .object({
+    _path: z.object({
+      segments: z.array(z.string().min(1)).min(2),
+    }),
+  })
+  .passthrough();
+
+const baseTransactionSchema = z
+  .object({
+    id: z.string().min(1),
+    ticker: z.string().min(1),
+    amount: z.number().finite().positive(),
+    // A close can legitimately happen at 0 (e.g. LUNA), opening prices are checked below
+    price: z.number().finite().nonnegative(),
+    created_time: firestoreTimestampSchema,
+    id_portfolio: firestoreReferenceSchema,
+    id_asset: firestoreReferenceSchema.optional(),
+    name: z.string().optional(),
+    amount_usd: z.number().finite().optional(),
+    allocation: z.number().finite().optional(),
+    type: z.string().optional(),
+  })
+  .passthrough();
+
+// transaction_portfolio.json holds the opening/adjusting operations of every position
+export const transactionPortfolioRecordSchema = baseTransactionSchema.extend({
+  operation: z.enum(['Compra', 'Venta']),
+  price: z.number().finite().positive(),
+});
+
+// closed_transactions.json only holds the Cierre operations
+export const closedTransactionRecordSchema = baseTransactionSchema.extend({
+  operation: z.literal('Cierre'),
+});
+
+const DUMP_SCHEMAS: Record<FirebaseDumpSource, z.ZodTypeAny> = {
+  transaction_portfolio: transactionPortfolioRecordSchema,
+  closed_transactions: closedTransactionRecordSchema,
+};
+
+function formatIssue(issue: z.ZodIssue): string {
+  const path = issue.path.join('.') || 'registro';
+  return `${path}: ${issue.message}`;
+}
+
+function readString(record: unknown, key: string): string | undefined {
+  if (record && typeof record === 'object' && typeof record[key] === 'string') {
+    return record[key];
+  }
+  return undefined;
+}
+
+// Validate one dump file; invalid records are quarantined instead of reaching the calculators. `knownIds` are the ids
+// already accepted from the other dump: both are merged, so a transaction present in each would be replayed twice
+export function validateFirebaseDump(
+  data: unknown,
+  source: FirebaseDumpSource,
+  knownIds: Set<string> = new Set(),
+): DumpValidationResult {
+  if (!Array.isArray(data)) {
+    return {
+      valid: [],
+      rejected: [{ source, index: -1, reasons: ['El archivo no contiene un arreglo de transacciones'] }],
+    };
+  }
+
+  const schema = DUMP_SCHEMAS[source];
+  const seenIds = new Set<string>();
+  const valid: FirebaseTransaction[] = [];
+  const rejected: RejectedRecord[] = [];
+
+  data.forEach((record, index) => {
+    const result = schema.safeParse(record);
+    const id = readString(record, 'id');
+    const ticker = readString(record, 'ticker');
+
+    if (!result.success) {
+      rejected.push({ source, index, id, ticker, reasons: result.error.issues.map(formatIssue) });
+      return;
+    }
+
+    if (seenIds.has(id)) {
+      rejected.push({ source, index, id, ticker, reasons: [`id duplicado "${id}"`] });
+      return;
+    }
+
+    if (knownIds.has(id)) {
+      rejected.push({ source, index, id, ticker, reasons: [`id duplicado "${id}", ya presente en el otro archivo`] });
+      return;
+    }
+
+    seenIds.add(id);
+    valid.push(result.data as FirebaseTransaction);
+  });
+
+  return { valid, rejected };
+}
@@ -0,0 +1,222 @@
+import { Trade, TradeImportRow } from '@/types/trade';
+
+// Interactive Brokers Flex Query parser. Supports both the Trade Confirmation report (<TradeConfirm>)
+// and the Activity report trades section (<Trade>), which use slightly different attribute names.
+const EXECUTION_TAGS = ['TradeConfirm', 'Trade'];
+
+// Rows with these levels of detail are aggregates of the EXECUTION rows and would double count
+const AGGREGATE_LEVELS = ['ORDER', 'SYMBOL_SUMMARY', 'ASSET_SUMMARY', 'CLOSED_LOT'];
+
+function getAttribute(element: Element, ...names: string[]): string {
+  for (const name of names) {
+    const value = element.getAttribute(name);
+    if (value !== null && value !== '') {
+      return value.trim();
+    }
+  }
+  return '';
+}
+
+// IBKR emits "20240131", "2024-01-31" or "01/31/2024" depending on the Flex Query date settings
+function parseFlexDate(value: string): string | null {
+  const compact = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const us = value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+
+  if (compact || iso) {
+    const [, year, month, day] = compact || iso;
+    return `${month}/${day}/${year}`;
+  }
+
+  if (us) {
+    const [, month, day, year] = us;
+    return `${month}/${day}/${year}`;
+  }
+
+  return null;
+}
+
+// Times come as "153000", "15:30:00" or embedded in dateTime as "20240131;153000"
+function parseFlexTime(value: string): string {
+  const compact = value.match(/^(\d{2})(\d{2})(\d{2})$/);
+  if (compact) {
+    const [, hours, minutes, seconds] = compact;
+    return `${hours}:${minutes}:${seconds}`;
+  }
+
+  return /^\d{2}:\d{2}:\d{2}$/.test(value) ? value : '00:00:00';
+}
+
+// Daily rates of the statement's ConversionRates section keyed by "date|currency", plus the account base currency
+// they convert to. Needed when a commission is charged in a currency other than the trade's
+function getConversionRates(xmlDocument: Document): { baseCurrency: string; rates: Map<string, number> } {
+  const rates = new Map<string, number>();
+  let baseCurrency = '';
+
+  for (const element of Array.from(xmlDocument.getElementsByTagName('ConversionRate'))) {
+    const date = parseFlexDate(getAttribute(element, 'reportDate'));
+    const rate = Number(getAttribute(element, 'rate'));
+    baseCurrency = baseCurrency || getAttribute(element, 'toCurrency').toUpperCase();
+    if (date && isFinite(rate) && rate > 0) {
+      rates.set(`${date}|${getAttribute(element, 'fromCurrency').toUpperCase()}`, rate);
+    }
+  }
+
+  const accountInformation = xmlDocument.getElementsByTagName('AccountInformation')[0];
+  baseCurrency = baseCurrency || (accountInformation && getAttribute(accountInformation, 'currency').toUpperCase());
+
+  return { baseCurrency: baseCurrency || 'USD', rates };
+}
+
+// IBKR asset categories mapped onto the asset types of the Firestore dumps, which pick the price provider's market.
+// ETFs are reported as STK with an ETF sub-category
+function mapAssetType(assetCategory: string, subCategory: string): string | null {
+  switch (assetCategory.toUpperCase()) {
+    case 'STK':
+      return subCategory.toUpperCase() === 'ETF' ? 'ETF' : 'Stock';
+    case 'CRYPTO':
+      return 'Cripto';
+    case 'CASH':
+      return 'Forex';
+    default:
+      return null;
+  }
+}
+
+function mapSide(buySell: string, openClose: string): Trade['side'] | null {
+  const direction = buySell.toUpperCase();
+  const indicator = openClose.toUpperCase();
+
+  if (direction !== 'BUY' && direction !== 'SELL') {
+    return null;
+  }
+
+  // Pure closes map onto Bitfin's explicit close operation. A "C;O" reversal closes the position and opens the
+  // opposite one, so it stays a buy or sell and the lot engine closes and then flips it
+  if (indicator === 'C') {
+    return 'Cierre';
+  }
+
+  return direction === 'BUY' ? 'Compra' : 'Venta';
+}
+
+export function parseIbkrFlexXml(xml: string): TradeImportRow[] {
+  const xmlDocument = new DOMParser().parseFromString(xml, 'application/xml');
+
+  if (xmlDocument.getElementsByTagName('parsererror').length > 0) {
+    return [{ rowNumber: 0, errors: ['El archivo no es un XML válido'] }];
+  }
+
+  if (xmlDocument.getElementsByTagName('FlexQueryResponse').length === 0) {
+    return [{ rowNumber: 0, errors: ['El XML no es un reporte Flex Query de Interactive Brokers'] }];
+  }
+
+  const { baseCurrency, rates } = getConversionRates(xmlDocument);
+  const executions = EXECUTION_TAGS.flatMap(tag => Array.from(xmlDocument.getElementsByTagName(tag)));
+  const rows: TradeImportRow[] = [];
+
+  executions.forEach((element, index) => {
+    const rowNumber = index + 1;
+    const levelOfDetail = getAttribute(element, 'levelOfDetail').toUpperCase();
+
+    if (AGGREGATE_LEVELS.includes(levelOfDetail)) {
+      return;
+    }
+
+    const errors: string[] = [];
+    const buySell = getAttribute(element, 'buySell');
+
+    // Cancelled executions are reported as "BUY (Ca.)" / "SELL (Ca.)" next to the original fill
+    if (buySell.includes('(Ca.)')) {
+      return;
+    }
+
+    const [datePart, timePart] = getAttribute(element, 'dateTime').split(/[; ]/);
+    const date = parseFlexDate(datePart || getAttribute(element, 'tradeDate'));
+    if (!date) {
+      errors.push(`Fecha inválida "${datePart || getAttribute(element, 'tradeDate')}"`);
+    }
+    const time = parseFlexTime(timePart || getAttribute(element, 'tradeTime'));
+
+    const assetCategory = getAttribute(element, 'assetCategory') || 'STK';
+    const assetType = mapAssetType(assetCategory, getAttribute(element, 'subCategory'));
+    if (!assetType) {
+      errors.push(`Categoría de activo no soportada "${assetCategory}"`);
+    }
+
+    // Forex pairs come as "EUR.USD"; the dumps write them "EUR/USD"
+    const rawSymbol = getAttribute(element, 'symbol').toUpperCase();
+    const symbol = assetType === 'Forex' ? rawSymbol.replace('.', '/') : rawSymbol;
+    if (!symbol) {
+      errors.push('Símbolo vacío');
+    }
+
+    const side = mapSide(buySell, getAttribute(element, 'openCloseIndicator'));
+    if (!side) {
+      errors.push(`Operación desconocida "${buySell}"`);
+    }
+
+    const quantity = Number(getAttribute(element, 'quantity'));
+    if (!isFinite(quantity) || quantity === 0) {
+      errors.push(`Cantidad inválida "${getAttribute(element, 'quantity')}"`);
+    }
+
+    const price = Number(getAttribute(element, 'price', 'tradePrice'));
+    if (!isFinite(price) || price <= 0) {
+      errors.push(`Precio inválido "${getAttribute(element, 'price', 'tradePrice')}"`);
+    }
+
+    const currency = getAttribute(element, 'currency').toUpperCase() || 'USD';
+    const fxRateToBase = Number(getAttribute(element, 'fxRateToBase') || 1);
+    if (!isFinite(fxRateToBase) || fxRateToBase <= 0) {
+      errors.push(`Tipo de cambio inválido "${getAttribute(element, 'fxRateToBase')}"`);
+    }
+
+    // IBKR reports commissions as negative amounts, in commissionCurrency when it differs from the trade currency
+    const commission = Math.abs(Number(getAttribute(element, 'commission', 'ibCommission') || 0));
+    const commissionCurrency = getAttribute(element, 'commissionCurrency', 'ibCommissionCurrency').toUpperCase();
+    if (!isFinite(commission)) {
+      errors.push(`Comisión inválida "${getAttribute(element, 'commission', 'ibCommission')}"`);
+    }
+
+    // The dashboard works in the account base currency (USD), so prices and fees are converted to it
+    let commissionFxRate = fxRateToBase;
+    if (commissionCurrency && commissionCurrency !== currency) {
+      commissionFxRate = commissionCurrency === baseCurrency ? 1 : rates.get(`${date}|${commissionCurrency}`);
+      if (commissionFxRate === undefined) {
+        errors.push(`Sin tipo de cambio para la comisión en ${commissionCurrency}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      rows.push({ rowNumber, errors });
+      return;
+    }
+
+    const id =
+      getAttribute(element, 'execID', 'ibExecID', 'tradeID', 'transactionID') || `${date}-${time}-${rowNumber}`;
+
+    rows.push({
+      rowNumber,
+      errors,
+      trade: {
+        id: `ibkr-${id}`,
+        date,
+        time,
+        symbol,
+        quantity: side === 'Compra' ? Math.abs(quantity) : -Math.abs(quantity),
+        price: price * fxRateToBase,
+        side,
+        commission: commission * commissionFxRate,
+        currency,
+        assetType,
+      },
+    });
+  });
+
+  if (rows.length === 0) {
+    return [{ rowNumber: 0, errors: ['El reporte no contiene ejecuciones'] }];
+  }
+
+  return rows;
+}
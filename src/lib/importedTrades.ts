@@ -0,0 +1,62 @@
+import { Trade } from '@/types/trade';
+import { ALL_PORTFOLIOS } from './tradeCalculations';
+import { getTradeTimestamp } from './positionLedger';
+
+const IMPORTED_TRADES_KEY = 'portfolio-imported-trades';
+
+// Trades imported from broker files are kept apart from the Firestore dumps so they survive reloads
+export function loadImportedTrades(): Trade[] {
+  try {
+    const stored = localStorage.getItem(IMPORTED_TRADES_KEY);
+    return stored ? (JSON.parse(stored) as Trade[]) : [];
+  } catch (error) {
+    console.error('Error reading imported trades:', error);
+    return [];
+  }
+}
+
+export function saveImportedTrades(trades: Trade[]) {
+  localStorage.setItem(IMPORTED_TRADES_KEY, JSON.stringify(trades));
+}
+
+export function getImportedTradesForPortfolio(trades: Trade[], portfolioId: string): Trade[] {
+  if (portfolioId === ALL_PORTFOLIOS) {
+    return trades;
+  }
+
+  return trades.filter(t => t.portfolioId === portfolioId);
+}
+
+// Imported trades are attached to the portfolio they were imported into (chosen in the dialog in the aggregate view)
+export function assignImportedTrades(trades: Trade[], portfolioId: string): Trade[] {
+  return trades.map(t => ({ ...t, portfolioId }));
+}
+
+/*
+ * Broker files carry no Firestore asset id, so an imported trade would open a position of its own next to the Firestore
+ * one of the same ticker and never net against it. Each imported trade takes the asset of the Firestore trade on the
+ * same portfolio and ticker closest before it (or the first one after it); tickers written differently in the broker
+ * file (e.g. "BRK B" vs "BRK.B") are not matched and keep a separate position, flagged by the over-close warnings.
+ */
+export function reconcileImportedTrades(importedTrades: Trade[], firestoreTrades: Trade[]): Trade[] {
+  const assetsByTicker = new Map<string, Trade[]>();
+  for (const trade of firestoreTrades) {
+    if (trade.assetId) {
+      const key = `${trade.portfolioId}:${trade.symbol.toUpperCase()}`;
+      assetsByTicker.set(key, [...(assetsByTicker.get(key) ?? []), trade]);
+    }
+  }
+
+  return importedTrades.map(trade => {
+    const candidates = assetsByTicker.get(`${trade.portfolioId}:${trade.symbol.toUpperCase()}`);
+    if (trade.assetId || !candidates) {
+      return trade;
+    }
+
+    const timestamp = getTradeTimestamp(trade);
+    const match =
+      [...candidates].reverse().find(candidate => getTradeTimestamp(candidate) <= timestamp) ?? candidates[0];
+
+    return { ...trade, assetId: match.assetId, assetType: trade.assetType || match.assetType };
+  });
+}
@@ -0,0 +1,204 @@
+import { CostBasisMethod, LotClosure, LotDirection, TaxLot, Trade } from '@/types/trade';
+
+export const COST_BASIS_METHODS: { value: CostBasisMethod; label: string }[] = [
+  { value: 'AVERAGE', label: 'Costo promedio' },
+  { value: 'FIFO', label: 'FIFO' },
+  { value: 'LIFO', label: 'LIFO' },
+  { value: 'HIFO', label: 'HIFO' },
+];
+
+// Quantities below this are treated as fully closed (fractional shares and crypto)
+export const QUANTITY_EPSILON = 0.0001;
+
+export interface LotTradeInput {
+  id: string;
+  side: Trade['side'];
+  quantity: number;
+  price: number;
+  timestamp: number;
+}
+
+export interface LotTradeResult {
+  closures: LotClosure[];
+  closedQuantity: number;
+  openedQuantity: number;
+  // Quantity a Cierre asked to close beyond what was open (0 when the close was valid)
+  overClosedQuantity: number;
+  realizedPnL: number;
+}
+
+// Tax lots of a single position. A position is either long or short, so every open lot shares one direction.
+export class LotBook {
+  private lots: TaxLot[] = [];
+
+  constructor(private readonly method: CostBasisMethod) {}
+
+  get direction(): LotDirection | null {
+    return this.lots.length > 0 ? this.lots[0].direction : null;
+  }
+
+  get quantity(): number {
+    return this.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  }
+
+  // Signed quantity: positive for long positions, negative for short positions
+  get signedQuantity(): number {
+    return this.direction === 'short' ? -this.quantity : this.quantity;
+  }
+
+  get costBasis(): number {
+    return this.lots.reduce((sum, lot) => sum + lot.quantity * lot.price, 0);
+  }
+
+  get averagePrice(): number {
+    const quantity = this.quantity;
+    return quantity > 0 ? this.costBasis / quantity : 0;
+  }
+
+  get openedAt(): number | null {
+    return this.lots.length > 0 ? Math.min(...this.lots.map(lot => lot.openedAt)) : null;
+  }
+
+  getLots(): TaxLot[] {
+    return this.lots.map(lot => ({ ...lot }));
+  }
+
+  clone(): LotBook {
+    const copy = new LotBook(this.method);
+    copy.lots = this.getLots();
+    return copy;
+  }
+
+  open(direction: LotDirection, quantity: number, price: number, tradeId: string, timestamp: number) {
+    this.lots.push({
+      id: `${tradeId}#${this.lots.length}`,
+      tradeId,
+      direction,
+      quantity,
+      originalQuantity: quantity,
+      price,
+      openedAt: timestamp,
+    });
+  }
+
+  // Relieve up to `quantity` from the open lots following the configured method
+  close(quantity: number, price: number, tradeId: string, timestamp: number): LotClosure[] {
+    const toClose = Math.min(quantity, this.quantity);
+    if (toClose < QUANTITY_EPSILON) {
+      return [];
+    }
+
+    const closures = this.method === 'AVERAGE' ? this.closeAverage(toClose) : this.closeByPriority(toClose);
+    this.lots = this.lots.filter(lot => lot.quantity >= QUANTITY_EPSILON);
+
+    return closures.map(({ lot, quantity: closedQuantity, openPrice }) => ({
+      lotId: lot.id,
+      openTradeId: lot.tradeId,
+      closeTradeId: tradeId,
+      direction: lot.direction,
+      quantity: closedQuantity,
+      openPrice,
+      closePrice: price,
+      openedAt: lot.openedAt,
+      closedAt: timestamp,
+      pnl: lot.direction === 'long' ? (price - openPrice) * closedQuantity : (openPrice - price) * closedQuantity,
+    }));
+  }
+
+  private closeByPriority(quantity: number): { lot: TaxLot; quantity: number; openPrice: number }[] {
+    const relieved: { lot: TaxLot; quantity: number; openPrice: number }[] = [];
+    let remaining = quantity;
+
+    for (const lot of this.orderedLots()) {
+      if (remaining < QUANTITY_EPSILON) {
+        break;
+      }
+
+      const closedQuantity = Math.min(lot.quantity, remaining);
+      lot.quantity -= closedQuantity;
+      remaining -= closedQuantity;
+      relieved.push({ lot: { ...lot }, quantity: closedQuantity, openPrice: lot.price });
+    }
+
+    return relieved;
+  }
+
+  // Average cost relieves every lot pro rata at the position's average price
+  private closeAverage(quantity: number): { lot: TaxLot; quantity: number; openPrice: number }[] {
+    const averagePrice = this.averagePrice;
+    const ratio = quantity / this.quantity;
+
+    return this.lots.map(lot => {
+      const closedQuantity = lot.quantity * ratio;
+      lot.quantity -= closedQuantity;
+      return { lot: { ...lot }, quantity: closedQuantity, openPrice: averagePrice };
+    });
+  }
+
+  private orderedLots(): TaxLot[] {
+    const lots = [...this.lots];
+
+    switch (this.method) {
+      case 'FIFO':
+        return lots.sort((a, b) => a.openedAt - b.openedAt);
+      case 'LIFO':
+        return lots.sort((a, b) => b.openedAt - a.openedAt);
+      case 'HIFO':
+        // Longs relieve the highest cost first; shorts the lowest proceeds first (both minimize the realized gain)
+        return lots.sort((a, b) => (a.direction === 'long' ? b.price - a.price : a.price - b.price));
+      default:
+        return lots;
+    }
+  }
+}
+
+/*
+ * Closing model shared by every calculator:
+ *
+ * - Compra opens or adds to a long position. Against an open short it first covers the short and any
+ *   remaining quantity opens a new long position.
+ * - Venta opens or adds to a short position. Against an open long it first sells the long and any
+ *   remaining quantity opens a new short position.
+ * - Cierre closes `amount` units of whatever is open (long or short), so a Cierre smaller than the position
+ *   is a partial close and the rest of the position stays open with its remaining lots.
+ * - A Cierre can never flip the position: when `amount` exceeds the open quantity only the open quantity
+ *   is closed and the excess is reported as `overClosedQuantity` so the UI can flag the record.
+ */
+export function applyTradeToBook(book: LotBook, trade: LotTradeInput): LotTradeResult {
+  const quantity = Math.abs(trade.quantity);
+  let closures: LotClosure[] = [];
+  let openedQuantity = 0;
+  let overClosedQuantity = 0;
+
+  if (trade.side === 'Cierre') {
+    const openQuantity = book.quantity;
+    closures = book.close(quantity, trade.price, trade.id, trade.timestamp);
+
+    if (quantity - openQuantity >= QUANTITY_EPSILON) {
+      overClosedQuantity = quantity - openQuantity;
+    }
+  } else {
+    const direction: LotDirection = trade.side === 'Compra' ? 'long' : 'short';
+
+    if (book.direction && book.direction !== direction) {
+      closures = book.close(quantity, trade.price, trade.id, trade.timestamp);
+    }
+
+    const closed = closures.reduce((sum, c) => sum + c.quantity, 0);
+    openedQuantity = quantity - closed;
+
+    if (openedQuantity >= QUANTITY_EPSILON) {
+      book.open(direction, openedQuantity, trade.price, trade.id, trade.timestamp);
+    } else {
+      openedQuantity = 0;
+    }
+  }
+
+  return {
+    closures,
+    closedQuantity: closures.reduce((sum, c) => sum + c.quantity, 0),
+    openedQuantity,
+    overClosedQuantity,
+    realizedPnL: closures.reduce((sum, c) => sum + c.pnl, 0),
+  };
+}
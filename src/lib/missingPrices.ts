@@ -0,0 +1,65 @@
+import { MissingPricePolicy } from '@/types/trade';
+
+export const MISSING_PRICE_POLICIES: { value: MissingPricePolicy; label: string }[] = [
+  { value: 'carry-forward', label: 'Último precio conocido' },
+  { value: 'interpolate', label: 'Interpolación lineal' },
+  { value: 'cost-basis', label: 'Costo base' },
+  { value: 'skip', label: 'Omitir activo' },
+];
+
+/*
+ * Estimate a missing month-end price of one symbol.
+ *
+ * `series` holds the provider price of the symbol for every month of the history (0 when missing or not held) and
+ * `index` is the month being valued. Returns 0 when the policy cannot produce a price, so the asset is skipped.
+ *
+ * - carry-forward: last known price before `index`
+ * - interpolate: linear between the previous and next known prices, or the only known neighbour at the edges
+ * - cost-basis: the position's average price, i.e. no unrealized P&L for that month
+ * - skip: never estimates
+ */
+export function estimateMissingPrice(
+  policy: MissingPricePolicy,
+  series: number[],
+  index: number,
+  costBasisPrice: number,
+): number {
+  if (policy === 'skip') {
+    return 0;
+  }
+
+  if (policy === 'cost-basis') {
+    return costBasisPrice;
+  }
+
+  let previousIndex = -1;
+  for (let i = index - 1; i >= 0; i--) {
+    if (series[i] > 0) {
+      previousIndex = i;
+      break;
+    }
+  }
+
+  if (policy === 'carry-forward') {
+    return previousIndex >= 0 ? series[previousIndex] : 0;
+  }
+
+  let nextIndex = -1;
+  for (let i = index + 1; i < series.length; i++) {
+    if (series[i] > 0) {
+      nextIndex = i;
+      break;
+    }
+  }
+
+  if (previousIndex >= 0 && nextIndex >= 0) {
+    const progress = (index - previousIndex) / (nextIndex - previousIndex);
+    return series[previousIndex] + (series[nextIndex] - series[previousIndex]) * progress;
+  }
+
+  if (previousIndex >= 0) {
+    return series[previousIndex];
+  }
+
+  return nextIndex >= 0 ? series[nextIndex] : 0;
+}
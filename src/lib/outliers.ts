@@ -0,0 +1,125 @@
+import { CumulativePnLPoint, OutlierMethod, OutlierPolicy, Trade } from '@/types/trade';
+import { PositionLedger, getTradeTimestamp } from './positionLedger';
+import { getClosingTrades } from './tradeCalculations';
+import { CapitalPeriod, getCapitalPeriods } from './returns';
+import { mean, standardDeviation } from './riskMetrics';
+
+const OUTLIER_POLICY_KEY = 'portfolio-outlier-policy';
+const INCLUDED_OUTLIERS_KEY = 'portfolio-included-outliers';
+
+export const OUTLIER_METHODS: { value: OutlierMethod; label: string; unit: string; defaultThreshold: number }[] = [
+  { value: 'absolute', label: 'Monto absoluto', unit: 'USD', defaultThreshold: 3000 },
+  { value: 'equity-percent', label: '% del equity', unit: '%', defaultThreshold: 20 },
+  { value: 'zscore', label: 'Z-score', unit: 'σ', defaultThreshold: 3 },
+  { value: 'off', label: 'Sin filtro', unit: '', defaultThreshold: 0 },
+];
+
+// Same cut as the former hard-coded sanity check
+export const DEFAULT_OUTLIER_POLICY: OutlierPolicy = { method: 'absolute', threshold: 3000 };
+
+export interface FlaggedTrade {
+  trade: Trade;
+  // What the policy measured, in the unit of its threshold
+  score: number;
+  // Re-included by hand, so it counts for the stats again
+  included: boolean;
+}
+
+export interface OutlierReport {
+  flagged: FlaggedTrade[];
+  // Ids of the flagged trades that stay out of the stats
+  excludedTradeIds: Set<string>;
+}
+
+// Stored policy, or the default one when it is missing or not a known method with a positive threshold
+export function loadOutlierPolicy(): OutlierPolicy {
+  try {
+    const stored = JSON.parse(localStorage.getItem(OUTLIER_POLICY_KEY) || 'null');
+    const isValid =
+      OUTLIER_METHODS.some(option => option.value === stored?.method) &&
+      (stored.method === 'off' || (isFinite(stored.threshold) && stored.threshold > 0));
+    return isValid ? { method: stored.method, threshold: Number(stored.threshold) } : DEFAULT_OUTLIER_POLICY;
+  } catch (error) {
+    console.error('Error reading outlier policy:', error);
+    return DEFAULT_OUTLIER_POLICY;
+  }
+}
+
+export function saveOutlierPolicy(policy: OutlierPolicy) {
+  localStorage.setItem(OUTLIER_POLICY_KEY, JSON.stringify(policy));
+}
+
+// Ids of the flagged trades the user chose to keep in the stats
+export function loadIncludedOutliers(): string[] {
+  try {
+    const stored = localStorage.getItem(INCLUDED_OUTLIERS_KEY);
+    return stored ? (JSON.parse(stored) as string[]) : [];
+  } catch (error) {
+    console.error('Error reading included outliers:', error);
+    return [];
+  }
+}
+
+export function saveIncludedOutliers(tradeIds: string[]) {
+  localStorage.setItem(INCLUDED_OUTLIERS_KEY, JSON.stringify(tradeIds));
+}
+
+// Capital right before `timestamp`: the account equity with a cash ledger, otherwise the open positions
+function getCapitalBefore(periods: CapitalPeriod[], timestamp: number): number {
+  const previous = periods.filter(period => period.timestamp < timestamp);
+  return previous.length > 0 ? previous[previous.length - 1].capital : 0;
+}
+
+function scoreTrades(trades: Trade[], method: OutlierMethod, points: CumulativePnLPoint[]): number[] {
+  switch (method) {
+    case 'absolute':
+      return trades.map(t => Math.abs(t.pnl || 0));
+    case 'equity-percent': {
+      // Trades before the first valuation (or with no capital at work) cannot be measured and are never flagged
+      const { periods } = getCapitalPeriods(points);
+      return trades.map(t => {
+        const capital = getCapitalBefore(periods, getTradeTimestamp(t));
+        return capital > 0 ? (Math.abs(t.pnl || 0) / capital) * 100 : 0;
+      });
+    }
+    case 'zscore': {
+      const pnls = trades.map(t => t.pnl || 0);
+      if (pnls.length < 3) {
+        return pnls.map(() => 0);
+      }
+      const average = mean(pnls);
+      const deviation = standardDeviation(pnls);
+      return pnls.map(pnl => (deviation > 0 ? Math.abs(pnl - average) / deviation : 0));
+    }
+    default:
+      return trades.map(() => 0);
+  }
+}
+
+/*
+ * Closing trades whose P&L the policy considers abnormal (usually data errors, but on a growing account often real
+ * trades, which is why every one can be re-included). Flagged trades are excluded from the trading stats and the
+ * monthly performance; the equity curve always keeps them.
+ */
+export function findOutliers(
+  ledger: PositionLedger,
+  policy: OutlierPolicy,
+  points: CumulativePnLPoint[],
+  includedTradeIds: string[],
+): OutlierReport {
+  if (policy.method === 'off') {
+    return { flagged: [], excludedTradeIds: new Set() };
+  }
+
+  const trades = getClosingTrades(ledger);
+  const scores = scoreTrades(trades, policy.method, points);
+
+  const flagged = trades
+    .map((trade, index) => ({ trade, score: scores[index], included: includedTradeIds.includes(trade.id) }))
+    .filter(item => item.score > policy.threshold);
+
+  return {
+    flagged,
+    excludedTradeIds: new Set(flagged.filter(item => !item.included).map(item => item.trade.id)),
+  };
+}
@@ -0,0 +1,151 @@
+import { CostBasisMethod, LotDirection, TaxLot, Trade } from '@/types/trade';
+import { LotBook, LotTradeResult, QUANTITY_EPSILON, applyTradeToBook } from './lotEngine';
+
+export interface LedgerPosition {
+  key: string;
+  symbol: string;
+  assetType?: string;
+  portfolioId?: string;
+  direction: LotDirection | null;
+  quantity: number;
+  averagePrice: number;
+  costBasis: number;
+  openedAt: number | null;
+  lots: TaxLot[];
+}
+
+export interface LedgerEntry {
+  timestamp: number;
+  trade: Trade;
+  result: LotTradeResult;
+  // State of the trade's position right after it was applied
+  position: LedgerPosition;
+  // Realized P&L of the whole ledger up to and including this entry (net of commissions)
+  cumulativeRealizedPnL: number;
+}
+
+export interface PositionLedger {
+  costBasisMethod: CostBasisMethod;
+  entries: LedgerEntry[];
+  entriesByPosition: { [key: string]: LedgerEntry[] };
+  // Input trades annotated with pnl, closedLots and overClosedQuantity
+  trades: Trade[];
+}
+
+export function getTradeTimestamp(trade: Trade): number {
+  return new Date(`${trade.date} ${trade.time}`).getTime();
+}
+
+// Key of the position a trade belongs to. Firestore transactions carry the id of their asset_position;
+// imported trades take the one of the same Firestore ticker (see reconcileImportedTrades) or fall back to the ticker,
+// scoped per portfolio because the aggregate view can hold a ticker in several of them.
+export function getPositionKey(trade: Trade): string {
+  if (trade.assetId) {
+    return trade.assetId;
+  }
+
+  return trade.portfolioId ? `${trade.portfolioId}:${trade.symbol}` : trade.symbol;
+}
+
+// Replay every trade once, in order, through one LotBook per position
+export function buildPositionLedger(trades: Trade[], costBasisMethod: CostBasisMethod = 'AVERAGE'): PositionLedger {
+  const books: { [key: string]: LotBook } = {};
+  const entries: LedgerEntry[] = [];
+  const entriesByPosition: { [key: string]: LedgerEntry[] } = {};
+  const tradesWithPnL: Trade[] = [];
+  let cumulativeRealizedPnL = 0;
+
+  for (const trade of trades) {
+    const key = getPositionKey(trade);
+    const timestamp = getTradeTimestamp(trade);
+
+    if (!books[key]) {
+      books[key] = new LotBook(costBasisMethod);
+      entriesByPosition[key] = [];
+    }
+
+    const book = books[key];
+    const result = applyTradeToBook(book, {
+      id: trade.id,
+      side: trade.side,
+      quantity: trade.quantity,
+      price: trade.price,
+      timestamp,
+    });
+
+    // Opening trades only realize their commission; closing trades realize the P&L of the lots they relieve. A Cierre
+    // with nothing open still pays its commission, and its over-closed quantity is flagged in the UI
+    const tradeWithPnL: Trade = {
+      ...trade,
+      pnl: result.realizedPnL - trade.commission,
+      closedLots: result.closures.length > 0 ? result.closures : undefined,
+      overClosedQuantity: result.overClosedQuantity > 0 ? result.overClosedQuantity : undefined,
+    };
+
+    cumulativeRealizedPnL += tradeWithPnL.pnl;
+    tradesWithPnL.push(tradeWithPnL);
+
+    const entry: LedgerEntry = {
+      timestamp,
+      trade: tradeWithPnL,
+      result,
+      position: {
+        key,
+        symbol: trade.symbol,
+        assetType: trade.assetType,
+        portfolioId: trade.portfolioId,
+        direction: book.direction,
+        quantity: book.quantity,
+        averagePrice: book.averagePrice,
+        costBasis: book.costBasis,
+        openedAt: book.openedAt,
+        lots: book.getLots(),
+      },
+      cumulativeRealizedPnL,
+    };
+
+    entries.push(entry);
+    entriesByPosition[key].push(entry);
+  }
+
+  return { costBasisMethod, entries, entriesByPosition, trades: tradesWithPnL };
+}
+
+// Index of the last entry at or before `timestamp`, or -1 (entries are in trade order, which is chronological)
+function findLastEntryIndex(entries: LedgerEntry[], timestamp: number): number {
+  let low = 0;
+  let high = entries.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (entries[mid].timestamp <= timestamp) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
+
+// Snapshot of every position still open at `timestamp`
+export function getOpenPositionsAt(ledger: PositionLedger, timestamp: number): LedgerPosition[] {
+  const positions: LedgerPosition[] = [];
+
+  for (const positionEntries of Object.values(ledger.entriesByPosition)) {
+    const index = findLastEntryIndex(positionEntries, timestamp);
+
+    if (index >= 0 && positionEntries[index].position.quantity >= QUANTITY_EPSILON) {
+      positions.push(positionEntries[index].position);
+    }
+  }
+
+  return positions;
+}
+
+export function getRealizedPnLAt(ledger: PositionLedger, timestamp: number): number {
+  const index = findLastEntryIndex(ledger.entries, timestamp);
+  return index >= 0 ? ledger.entries[index].cumulativeRealizedPnL : 0;
+}
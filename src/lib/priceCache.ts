@@ -0,0 +1,181 @@
+import { PriceMap, PriceProvider, PriceRequest } from './priceProviders';
+
+const DB_NAME = 'portfolio-price-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'prices';
+
+// Closes that were still moving when fetched (current month) are refreshed after this long
+const OPEN_PERIOD_TTL_MS = 60 * 60 * 1000;
+// Prices the provider did not have are retried sooner than a day, they are often backfilled later
+const NOT_FOUND_TTL_MS = 6 * 60 * 60 * 1000;
+
+export interface CachedPrice {
+  // `${symbol}|${assetType}|${date}`
+  key: string;
+  symbol: string;
+  assetType: string;
+  date: string;
+  // 0 when the provider had no price for that date
+  price: number;
+  // Provider that produced the price, entries from another provider are ignored
+  source: string;
+  fetchedAt: number;
+}
+
+export function getPriceCacheKey(request: PriceRequest, date: string): string {
+  return `${request.symbol}|${request.assetType}|${date}`;
+}
+
+/*
+ * Freshness rules:
+ *
+ * - A price fetched after its date was over is a final close and never expires (every past month).
+ * - A price fetched on or before its date (the current month) expires after OPEN_PERIOD_TTL_MS.
+ * - A missing price expires after NOT_FOUND_TTL_MS, whatever its date.
+ */
+export function isCachedPriceFresh(entry: CachedPrice, now: number = Date.now()): boolean {
+  const age = now - entry.fetchedAt;
+
+  if (entry.price <= 0) {
+    return age < NOT_FOUND_TTL_MS;
+  }
+
+  const [year, month, day] = entry.date.split('-').map(Number);
+  const dateEnd = new Date(year, month - 1, day + 1).getTime();
+
+  return entry.fetchedAt >= dateEnd || age < OPEN_PERIOD_TTL_MS;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+
+  return dbPromise;
+}
+
+function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  return openDatabase().then(
+    db =>
+      new Promise<T | undefined>((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = operation(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => resolve(request ? request.result : undefined);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      }),
+  );
+}
+
+async function readCachedPrices(keys: string[]): Promise<{ [key: string]: CachedPrice }> {
+  const entries: { [key: string]: CachedPrice } = {};
+
+  await runTransaction('readonly', store => {
+    for (const key of keys) {
+      const request = store.get(key) as IDBRequest<CachedPrice | undefined>;
+      request.onsuccess = () => {
+        if (request.result) {
+          entries[key] = request.result;
+        }
+      };
+    }
+  });
+
+  return entries;
+}
+
+async function writeCachedPrices(entries: CachedPrice[]): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  await runTransaction('readwrite', store => {
+    entries.forEach(entry => store.put(entry));
+  });
+}
+
+export async function clearPriceCache(): Promise<void> {
+  await runTransaction('readwrite', store => store.clear());
+}
+
+// Wrap a provider so only missing or stale prices reach it. Without IndexedDB it behaves like the provider.
+export function createCachedPriceProvider(provider: PriceProvider): PriceProvider {
+  return {
+    name: provider.name,
+    async getPrices(requests, date) {
+      let cached: { [key: string]: CachedPrice } = {};
+      try {
+        cached = await readCachedPrices(requests.map(request => getPriceCacheKey(request, date)));
+      } catch (error) {
+        console.warn('Price cache unavailable, fetching from provider:', error);
+        return provider.getPrices(requests, date);
+      }
+
+      const priceMap: PriceMap = {};
+      const missing: PriceRequest[] = [];
+
+      for (const request of requests) {
+        const entry = cached[getPriceCacheKey(request, date)];
+        if (entry && entry.source === provider.name && isCachedPriceFresh(entry)) {
+          priceMap[request.symbol] = entry.price;
+        } else {
+          missing.push(request);
+        }
+      }
+
+      if (missing.length === 0) {
+        return priceMap;
+      }
+
+      const fetched = await provider.getPrices(missing, date);
+      const fetchedAt = Date.now();
+      const entries: CachedPrice[] = [];
+
+      for (const request of missing) {
+        // Symbols absent from the response come from a failed request and are not cached
+        if (!(request.symbol in fetched)) {
+          continue;
+        }
+
+        priceMap[request.symbol] = fetched[request.symbol];
+        entries.push({
+          key: getPriceCacheKey(request, date),
+          symbol: request.symbol,
+          assetType: request.assetType,
+          date,
+          price: fetched[request.symbol],
+          source: provider.name,
+          fetchedAt,
+        });
+      }
+
+      try {
+        await writeCachedPrices(entries);
+      } catch (error) {
+        console.warn('Failed to store prices in cache:', error);
+      }
+
+      return priceMap;
+    },
+  };
+}
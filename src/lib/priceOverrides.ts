@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import { PriceMap } from './priceProviders';
+
+const PRICE_OVERRIDES_KEY = 'portfolio-price-overrides';
+
+export interface PriceOverride {
+  symbol: string;
+  // YYYY-MM-DD closing date
+  date: string;
+  price: number;
+  note?: string;
+}
+
+const priceOverrideSchema = z.object({
+  symbol: z.string().trim().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'fecha con formato YYYY-MM-DD'),
+  price: z.number().finite().positive(),
+  note: z.string().optional(),
+});
+
+// Manual closes (delisted tickers, mis-priced pairs...) kept in the browser and shared as JSON files
+export function loadPriceOverrides(): PriceOverride[] {
+  try {
+    const stored = localStorage.getItem(PRICE_OVERRIDES_KEY);
+    return stored ? (JSON.parse(stored) as PriceOverride[]) : [];
+  } catch (error) {
+    console.error('Error reading price overrides:', error);
+    return [];
+  }
+}
+
+export function savePriceOverrides(overrides: PriceOverride[]) {
+  localStorage.setItem(PRICE_OVERRIDES_KEY, JSON.stringify(overrides));
+}
+
+// Add or replace the override of a symbol on a date, keeping the list sorted by symbol and date
+export function upsertPriceOverride(overrides: PriceOverride[], override: PriceOverride): PriceOverride[] {
+  const normalized = { ...override, symbol: override.symbol.trim().toUpperCase() };
+
+  return [...overrides.filter(o => o.symbol !== normalized.symbol || o.date !== normalized.date), normalized].sort(
+    (a, b) => a.symbol.localeCompare(b.symbol) || a.date.localeCompare(b.date),
+  );
+}
+
+export function exportPriceOverrides(overrides: PriceOverride[]): string {
+  return JSON.stringify(overrides, null, 2);
+}
+
+// Parse an exported overrides file; invalid entries are reported and left out
+export function parsePriceOverridesJson(content: string): { overrides: PriceOverride[]; errors: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return { overrides: [], errors: ['El archivo no es un JSON válido'] };
+  }
+
+  if (!Array.isArray(data)) {
+    return { overrides: [], errors: ['El archivo no contiene un arreglo de precios'] };
+  }
+
+  const overrides: PriceOverride[] = [];
+  const errors: string[] = [];
+
+  data.forEach((entry, index) => {
+    const result = priceOverrideSchema.safeParse(entry);
+    if (result.success) {
+      overrides.push({ ...result.data, symbol: result.data.symbol.toUpperCase() } as PriceOverride);
+    } else {
+      errors.push(`Entrada ${index + 1}: ${result.error.issues.map(issue => issue.message).join('; ')}`);
+    }
+  });
+
+  return { overrides, errors };
+}
+
+function getSymbolOverrides(overrides: PriceOverride[], symbol: string) {
+  return overrides
+    .filter(o => o.symbol === symbol.toUpperCase())
+    .map(o => ({ date: o.date, price: o.price }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Prices overridden exactly on `date`; they take precedence over the provider
+export function getOverriddenPrices(overrides: PriceOverride[], symbols: string[], date: string): PriceMap {
+  const priceMap: PriceMap = {};
+
+  for (const symbol of symbols) {
+    const override = getSymbolOverrides(overrides, symbol).find(point => point.date === date);
+
+    if (override) {
+      priceMap[symbol] = override.price;
+    }
+  }
+
+  return priceMap;
+}
+
+// Latest override on or before `date`, carried forward for as long as the provider has no close for the symbol
+// (weekend or holiday month-ends, delisted tickers that are never quoted again); a real close always wins
+export function getLatestOverriddenPrices(overrides: PriceOverride[], symbols: string[], date: string): PriceMap {
+  const priceMap: PriceMap = {};
+
+  for (const symbol of symbols) {
+    const override = getSymbolOverrides(overrides, symbol)
+      .filter(point => point.date <= date)
+      .pop();
+
+    if (override) {
+      priceMap[symbol] = override.price;
+    }
+  }
+
+  return priceMap;
+}
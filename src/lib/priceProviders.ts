@@ -0,0 +1,242 @@
+import { dataLogger } from './dataLogger';
+import { parseCsv } from './csvImport';
+import { createCachedPriceProvider } from './priceCache';
+
+export interface PriceRequest {
+  symbol: string;
+  // Firebase asset type (Cripto, Accion, ETF, Forex)
+  assetType: string;
+}
+
+// Closing prices keyed by symbol; 0 means the provider has no price for that symbol on that date
+export type PriceMap = { [symbol: string]: number };
+
+export interface PriceProvider {
+  name: string;
+  // `date` is a YYYY-MM-DD calendar day
+  getPrices(requests: PriceRequest[], date: string): Promise<PriceMap>;
+}
+
+export type PriceProviderKind = 'bitfin' | 'file';
+
+const DEFAULT_PRICE_API_URL = 'https://bitfinserver-production.up.railway.app';
+const DEFAULT_PRICE_FILE_URL = '/prices.json';
+const HISTORICAL_PRICES_PATH = '/api/tickers/historical-prices/date';
+
+// Month-end often falls on a weekend or holiday, so a price file may look back a few days for the last close
+const MAX_LOOKBACK_DAYS = 7;
+
+// Function to convert Firebase asset types to API format
+function convertAssetType(firebaseType: string): string {
+  switch (firebaseType) {
+    case 'Cripto':
+      return 'crypto';
+    case 'Accion':
+    case 'Stock':
+      return 'stock';
+    case 'ETF':
+      return 'etf';
+    case 'Forex':
+      return 'forex';
+    default:
+      console.warn(`Unknown asset type: ${firebaseType}, defaulting to stock`);
+      return 'stock';
+  }
+}
+
+// Bitfin server (or any server implementing the same contract, e.g. scripts/mock-price-server.mjs)
+export function createBitfinPriceProvider(baseUrl: string = DEFAULT_PRICE_API_URL): PriceProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}${HISTORICAL_PRICES_PATH}`;
+
+  return {
+    name: `bitfin (${baseUrl})`,
+    async getPrices(requests, date) {
+      const requestBody = {
+        symbols: requests.map(request => ({ symbol: request.symbol, type: convertAssetType(request.assetType) })),
+        date,
+      };
+
+      const startTime = Date.now();
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody),
+      });
+
+      // Rate limiting and server errors are transient, let the caller retry them
+      if (response.status === 429 || response.status >= 500) {
+        throw new Error(`Price API request for ${date} failed with status ${response.status}`);
+      }
+
+      if (!response.ok) {
+        console.warn(`Failed to get batch prices on ${date}, status: ${response.status}`);
+        dataLogger.logError(
+          `API request failed with status ${response.status}`,
+          `getBatchHistoricalPrices for ${date}`,
+        );
+        return {};
+      }
+
+      const data = await response.json();
+      dataLogger.logApiCall(endpoint, requestBody, data, Date.now() - startTime);
+
+      if (!data.success || !data.data) {
+        console.warn(`No batch price data for ${date}`);
+        return {};
+      }
+
+      const priceMap: PriceMap = {};
+      for (const priceData of data.data) {
+        priceMap[priceData.symbol] = priceData.priceFound && priceData.price > 0 ? priceData.price : 0;
+      }
+
+      return priceMap;
+    },
+  };
+}
+
+// Price history of one symbol, sorted by date
+type PriceSeries = { date: string; price: number }[];
+
+function addPoint(series: { [symbol: string]: PriceSeries }, symbol: unknown, date: unknown, price: unknown) {
+  const value = Number(price);
+  if (typeof symbol !== 'string' || typeof date !== 'string' || !isFinite(value) || value <= 0) {
+    return;
+  }
+
+  const key = symbol.trim().toUpperCase();
+  series[key] = series[key] || [];
+  series[key].push({ date: date.trim(), price: value });
+}
+
+/*
+ * Accepted price file formats (dates as YYYY-MM-DD):
+ *
+ * - JSON array:  [{ "symbol": "AAPL", "date": "2024-01-31", "price": 184.4 }, ...]
+ * - JSON object: { "AAPL": { "2024-01-31": 184.4, ... }, ... }
+ * - CSV with a header row containing symbol, date and price columns
+ */
+export function parsePriceFile(content: string): { [symbol: string]: PriceSeries } {
+  const series: { [symbol: string]: PriceSeries } = {};
+  const trimmed = content.trim();
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const data = JSON.parse(trimmed);
+
+    if (Array.isArray(data)) {
+      data.forEach(point => addPoint(series, point?.symbol, point?.date, point?.price));
+    } else {
+      for (const [symbol, prices] of Object.entries(data)) {
+        for (const [date, price] of Object.entries(prices as Record<string, unknown>)) {
+          addPoint(series, symbol, date, price);
+        }
+      }
+    }
+  } else {
+    const parsed = parseCsv(trimmed);
+    const headers = parsed.headers.map(header => header.trim().toLowerCase());
+    const symbolColumn = headers.findIndex(header => header === 'symbol' || header === 'ticker');
+    const dateColumn = headers.indexOf('date');
+    const priceColumn = headers.findIndex(header => header === 'price' || header === 'close');
+
+    if (symbolColumn < 0 || dateColumn < 0 || priceColumn < 0) {
+      throw new Error('Price CSV must have symbol, date and price columns');
+    }
+
+    parsed.rows.forEach(row => addPoint(series, row[symbolColumn], row[dateColumn], row[priceColumn]));
+  }
+
+  for (const points of Object.values(series)) {
+    points.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  return series;
+}
+
+// Last price on or before `date`, looking back at most MAX_LOOKBACK_DAYS
+export function findClosingPrice(points: PriceSeries | undefined, date: string): number {
+  if (!points) {
+    return 0;
+  }
+
+  const earliest = new Date(`${date}T00:00:00Z`);
+  earliest.setUTCDate(earliest.getUTCDate() - MAX_LOOKBACK_DAYS);
+  const earliestDate = earliest.toISOString().substring(0, 10);
+
+  for (let i = points.length - 1; i >= 0; i--) {
+    if (points[i].date <= date) {
+      return points[i].date >= earliestDate ? points[i].price : 0;
+    }
+  }
+
+  return 0;
+}
+
+// Static JSON/CSV price file, loaded once and served from memory
+export function createFilePriceProvider(fileUrl: string = DEFAULT_PRICE_FILE_URL): PriceProvider {
+  let seriesPromise: Promise<{ [symbol: string]: PriceSeries }> | null = null;
+
+  const loadSeries = async () => {
+    const response = await fetch(fileUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch price file ${fileUrl}, status: ${response.status}`);
+    }
+    return parsePriceFile(await response.text());
+  };
+
+  return {
+    name: `file (${fileUrl})`,
+    async getPrices(requests, date) {
+      if (!seriesPromise) {
+        seriesPromise = loadSeries().catch(error => {
+          // Allow a retry on the next request instead of caching the failure
+          seriesPromise = null;
+          throw error;
+        });
+      }
+
+      const series = await seriesPromise;
+      const priceMap: PriceMap = {};
+
+      for (const request of requests) {
+        priceMap[request.symbol] = findClosingPrice(series[request.symbol.toUpperCase()], date);
+      }
+
+      return priceMap;
+    },
+  };
+}
+
+const DEFAULT_PRICE_CONCURRENCY = 4;
+
+// Maximum number of month-end price requests in flight, set through VITE_PRICE_CONCURRENCY
+export function getPriceConcurrency(): number {
+  const configured = Number(import.meta.env.VITE_PRICE_CONCURRENCY);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_PRICE_CONCURRENCY;
+}
+
+let activeProvider: PriceProvider | null = null;
+
+// Provider selected through VITE_PRICE_PROVIDER (bitfin by default), see .env.example.
+// Results are cached in IndexedDB (see priceCache.ts).
+export function getPriceProvider(): PriceProvider {
+  if (!activeProvider) {
+    const kind = (import.meta.env.VITE_PRICE_PROVIDER || 'bitfin') as PriceProviderKind;
+    let provider: PriceProvider;
+
+    if (kind === 'file') {
+      provider = createFilePriceProvider(import.meta.env.VITE_PRICE_FILE_URL || DEFAULT_PRICE_FILE_URL);
+    } else {
+      if (kind !== 'bitfin') {
+        console.warn(`Unknown price provider: ${kind}, defaulting to bitfin`);
+      }
+      provider = createBitfinPriceProvider(import.meta.env.VITE_PRICE_API_URL || DEFAULT_PRICE_API_URL);
+    }
+
+    activeProvider = createCachedPriceProvider(provider);
+  }
+
+  return activeProvider;
+}
@@ -0,0 +1,201 @@
+import { CumulativePnLPoint, ReturnMethod } from '@/types/trade';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_DAYS = 365;
+
+export const RETURN_METHODS: { value: ReturnMethod; label: string }[] = [
+  { value: 'twr', label: 'TWR' },
+  { value: 'mwr', label: 'MWR (TIR)' },
+];
+
+export interface PortfolioReturns {
+  // Cumulative returns over the whole history, as fractions (0.1 = 10%)
+  twr: number;
+  mwr: number;
+  twrAnnualized: number;
+  // XIRR of the cash flows; NaN when it has no solution
+  mwrAnnualized: number;
+  // Returns are measured on the account equity when capital was recorded, otherwise on the open positions
+  hasCapital: boolean;
+}
+
+export interface CapitalPeriod {
+  timestamp: number;
+  // Capital at the end of the period and P&L made during it
+  capital: number;
+  pnl: number;
+  // External money added (positive) or taken out (negative) during the period
+  flow: number;
+}
+
+/*
+ * Capital base of every valuation point.
+ *
+ * With a cash ledger the capital is the account equity and the flows are the deposits and withdrawals. Without it the
+ * open positions are treated as a self-funded account: the capital is their gross market value and every purchase or
+ * sale is a flow in or out. In both cases flow = change in capital - P&L of the period.
+ */
+export function getCapitalPeriods(points: CumulativePnLPoint[]): { periods: CapitalPeriod[]; hasCapital: boolean } {
+  const hasCapital = points.some(point => point.netDeposits);
+  let previousCapital = 0;
+  let previousPnL = 0;
+
+  const periods = points.map(point => {
+    const capital = (hasCapital ? point.equity : point.exposure) ?? 0;
+    const pnl = point.value - previousPnL;
+    const flow = capital - previousCapital - pnl;
+
+    previousCapital = capital;
+    previousPnL = point.value;
+
+    return { timestamp: new Date(point.date).getTime(), capital, pnl, flow };
+  });
+
+  return { periods, hasCapital };
+}
+
+// Cumulative time-weighted return at every point: sub-period returns chain-linked. Money added during a period is
+// counted as working from its start and money taken out as working until its end, so a large sale never shrinks the
+// base the period's P&L is measured on. Periods without capital at work contribute nothing.
+function calculateTwrSeries(periods: CapitalPeriod[]): number[] {
+  let growth = 1;
+  let previousCapital = 0;
+
+  return periods.map(period => {
+    const base = previousCapital + Math.max(period.flow, 0);
+    if (base > 0) {
+      growth *= 1 + period.pnl / base;
+    }
+    previousCapital = period.capital;
+    return growth - 1;
+  });
+}
+
+function yearsBetween(from: number, to: number): number {
+  return (to - from) / DAY_MS / YEAR_DAYS;
+}
+
+// Net present value of dated cash flows at an annual `rate`, and its derivative
+function npv(flows: { years: number; amount: number }[], rate: number): { value: number; derivative: number } {
+  let value = 0;
+  let derivative = 0;
+
+  for (const { years, amount } of flows) {
+    const discount = Math.pow(1 + rate, -years);
+    value += amount * discount;
+    derivative -= (years * amount * discount) / (1 + rate);
+  }
+
+  return { value, derivative };
+}
+
+/*
+ * Annual rate that zeroes the NPV of the cash flows (investor's view: money in is negative, the ending capital is
+ * positive). Newton's method from `guess`, falling back to bisection when it diverges. NaN when no rate in
+ * (-99.99%, 100000%) solves it.
+ */
+export function xirr(flows: { timestamp: number; amount: number }[], guess = 0.1): number {
+  if (flows.length < 2) {
+    return NaN;
+  }
+
+  const start = flows[0].timestamp;
+  const datedFlows = flows.map(flow => ({ years: yearsBetween(start, flow.timestamp), amount: flow.amount }));
+
+  let rate = guess;
+  for (let i = 0; i < 50; i++) {
+    const { value, derivative } = npv(datedFlows, rate);
+    if (Math.abs(value) < 1e-7) {
+      return rate;
+    }
+    if (derivative === 0 || !isFinite(derivative)) {
+      break;
+    }
+
+    const next = rate - value / derivative;
+    if (!isFinite(next) || next <= -1) {
+      break;
+    }
+    if (Math.abs(next - rate) < 1e-10) {
+      return next;
+    }
+    rate = next;
+  }
+
+  let low = -0.9999;
+  let high = 1000;
+  let lowValue = npv(datedFlows, low).value;
+  if (lowValue * npv(datedFlows, high).value > 0) {
+    return NaN;
+  }
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npv(datedFlows, mid).value;
+    if (Math.abs(midValue) < 1e-7 || high - low < 1e-10) {
+      return mid;
+    }
+    if (lowValue * midValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+// Cash flows up to period `end`, closed by cashing out the capital at that point
+function getMwrFlows(periods: CapitalPeriod[], end: number): { timestamp: number; amount: number }[] {
+  const flows = periods
+    .slice(0, end + 1)
+    .filter(period => period.flow !== 0)
+    .map(period => ({ timestamp: period.timestamp, amount: -period.flow }));
+
+  flows.push({ timestamp: periods[end].timestamp, amount: periods[end].capital });
+  return flows;
+}
+
+// Cumulative money-weighted return at every point, i.e. the XIRR to that date compounded over the elapsed time
+function calculateMwrSeries(periods: CapitalPeriod[]): number[] {
+  let guess = 0.1;
+
+  return periods.map((period, index) => {
+    const rate = xirr(getMwrFlows(periods, index), guess);
+    if (isNaN(rate)) {
+      return 0;
+    }
+
+    // Each solution is a good starting point for the next date
+    guess = rate;
+    return Math.pow(1 + rate, yearsBetween(periods[0].timestamp, period.timestamp)) - 1;
+  });
+}
+
+// Cumulative return at every point of the equity curve, as a fraction
+export function calculateReturnSeries(points: CumulativePnLPoint[], method: ReturnMethod): number[] {
+  const { periods } = getCapitalPeriods(points);
+  return method === 'twr' ? calculateTwrSeries(periods) : calculateMwrSeries(periods);
+}
+
+export function calculatePortfolioReturns(points: CumulativePnLPoint[]): PortfolioReturns {
+  const { periods, hasCapital } = getCapitalPeriods(points);
+
+  if (periods.length < 2) {
+    return { twr: 0, mwr: 0, twrAnnualized: 0, mwrAnnualized: NaN, hasCapital };
+  }
+
+  const years = yearsBetween(periods[0].timestamp, periods[periods.length - 1].timestamp);
+  const twrSeries = calculateTwrSeries(periods);
+  const twr = twrSeries[twrSeries.length - 1];
+  const mwrAnnualized = xirr(getMwrFlows(periods, periods.length - 1));
+
+  return {
+    twr,
+    twrAnnualized: years > 0 && twr > -1 ? Math.pow(1 + twr, 1 / years) - 1 : 0,
+    mwr: isNaN(mwrAnnualized) ? 0 : Math.pow(1 + mwrAnnualized, years) - 1,
+    mwrAnnualized,
+    hasCapital,
+  };
+}
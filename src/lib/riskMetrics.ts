@@ -0,0 +1,69 @@
+import { CumulativePnLPoint, PortfolioRiskStats } from '@/types/trade';
+import { calculateDrawdowns } from './drawdown';
+import { calculateReturnSeries } from './returns';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function standardDeviation(values: number[]): number {
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+}
+
+/*
+ * Volatility and risk-adjusted ratios from the periodic time-weighted returns of the equity curve, so deposits and
+ * withdrawals do not count as performance. Returns are annualized with the number of valuation periods per year of the
+ * series, which adapts to the monthly, weekly or daily resolution.
+ *
+ * - Sharpe: mean excess return over its standard deviation
+ * - Sortino: mean excess return over the downside deviation (only periods below the risk-free rate)
+ * - Calmar: annualized return over the maximum drawdown
+ *
+ * Ratios are NaN when there are too few periods or no dispersion to divide by.
+ */
+export function calculateRiskStats(points: CumulativePnLPoint[], riskFreeRate: number): PortfolioRiskStats {
+  const growth = calculateReturnSeries(points, 'twr').map(twr => 1 + twr);
+  const periodReturns = growth.slice(1).map((value, index) => (growth[index] > 0 ? value / growth[index] - 1 : 0));
+
+  const years =
+    points.length > 1
+      ? (new Date(points[points.length - 1].date).getTime() - new Date(points[0].date).getTime()) / DAY_MS / 365
+      : 0;
+
+  if (periodReturns.length < 2 || years <= 0) {
+    return {
+      annualizedReturn: NaN,
+      volatility: NaN,
+      sharpeRatio: NaN,
+      sortinoRatio: NaN,
+      calmarRatio: NaN,
+      riskFreeRate,
+      periodsPerYear: 0,
+    };
+  }
+
+  const periodsPerYear = periodReturns.length / years;
+  const periodRiskFreeRate = Math.pow(1 + riskFreeRate, 1 / periodsPerYear) - 1;
+  const excessReturns = periodReturns.map(value => value - periodRiskFreeRate);
+  const meanExcessReturn = mean(excessReturns);
+
+  const deviation = standardDeviation(periodReturns);
+  const downsideDeviation = Math.sqrt(mean(excessReturns.map(value => Math.min(value, 0) ** 2)));
+
+  const totalGrowth = growth[growth.length - 1] / growth[0];
+  const annualizedReturn = totalGrowth > 0 ? Math.pow(totalGrowth, 1 / years) - 1 : -1;
+  const maxDrawdown = Math.abs(calculateDrawdowns(points).stats.maxDrawdownPercent) / 100;
+
+  return {
+    annualizedReturn,
+    volatility: deviation * Math.sqrt(periodsPerYear),
+    sharpeRatio: deviation > 0 ? (meanExcessReturn / deviation) * Math.sqrt(periodsPerYear) : NaN,
+    sortinoRatio: downsideDeviation > 0 ? (meanExcessReturn / downsideDeviation) * Math.sqrt(periodsPerYear) : NaN,
+    calmarRatio: maxDrawdown > 0 ? annualizedReturn / maxDrawdown : NaN,
+    riskFreeRate,
+    periodsPerYear,
+  };
+}
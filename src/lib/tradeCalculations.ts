@@ -1,103 +1,55 @@
-import { Trade, TradeStats, CumulativePnLPoint, MonthlyPerformance } from '@/types/trade';
+import {
+  Trade,
+  TradeStats,
+  CumulativePnLPoint,
+  MonthlyPerformance,
+  CostBasisMethod,
+  LotDirection,
+  MissingPricePolicy,
+  ValuationResolution,
+} from '@/types/trade';
 import { dataLogger } from './dataLogger';
+import { QUANTITY_EPSILON } from './lotEngine';
+import {
+  PositionLedger,
+  buildPositionLedger,
+  getOpenPositionsAt,
+  getRealizedPnLAt,
+  getTradeTimestamp,
+} from './positionLedger';
+import { PriceMap, PriceRequest, getPriceConcurrency, getPriceProvider } from './priceProviders';
+import { mapWithConcurrency, retryWithBackoff } from './concurrency';
+import { estimateMissingPrice } from './missingPrices';
+import { PriceOverride, getOverriddenPrices, getLatestOverriddenPrices } from './priceOverrides';
+import { CashLedger, getCashBalanceAt, getNetDepositsAt } from './cashLedger';
+import { BenchmarkPrices } from './benchmarks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How open positions are valued at each valuation date
+export interface ValuationOptions {
+  resolution: ValuationResolution;
+  missingPricePolicy: MissingPricePolicy;
+  // Manual closes that take precedence over the price provider
+  priceOverrides: PriceOverride[];
+}
 
-export function calculatePnL(trades: Trade[]): Trade[] {
-  const positions: { [symbol: string]: { quantity: number; avgPrice: number } } = {};
-  const tradesWithPnL: Trade[] = [];
-
-  for (const trade of trades) {
-    const symbol = trade.symbol;
-
-    if (trade.side === 'Compra') {
-      if (!positions[symbol]) {
-        positions[symbol] = { quantity: 0, avgPrice: 0 };
-      }
-
-      // If we have a short position, Compra closes it (generates P&L)
-      if (positions[symbol].quantity < 0) {
-        const pnl = (positions[symbol].avgPrice - trade.price) * Math.abs(trade.quantity) - trade.commission;
-        positions[symbol].quantity += trade.quantity;
-
-        if (Math.abs(positions[symbol].quantity) < 0.0001) {
-          delete positions[symbol];
-        }
-
-        tradesWithPnL.push({ ...trade, pnl });
-      } else {
-        // Opening or adding to long position
-        const totalCost = positions[symbol].quantity * positions[symbol].avgPrice + trade.quantity * trade.price;
-        positions[symbol].quantity += trade.quantity;
-        positions[symbol].avgPrice = totalCost / positions[symbol].quantity;
-
-        tradesWithPnL.push({ ...trade, pnl: -trade.commission });
-      }
-    } else if (trade.side === 'Cierre') {
-      if (positions[symbol]) {
-        const quantityToClose = Math.abs(trade.quantity);
-        let pnl = 0;
-
-        if (positions[symbol].quantity > 0) {
-          // Closing LONG position: P&L = (sell_price - avg_buy_price) * quantity
-          pnl = (trade.price - positions[symbol].avgPrice) * quantityToClose - trade.commission;
-          positions[symbol].quantity -= quantityToClose;
-        } else {
-          // Closing SHORT position: P&L = (avg_sell_price - buy_price) * quantity
-          pnl = (positions[symbol].avgPrice - trade.price) * quantityToClose - trade.commission;
-          positions[symbol].quantity += quantityToClose;
-        }
-
-        if (Math.abs(positions[symbol].quantity) < 0.0001) {
-          delete positions[symbol];
-        }
-
-        tradesWithPnL.push({ ...trade, pnl });
-      } else {
-        tradesWithPnL.push({ ...trade, pnl: 0 });
-      }
-    } else if (trade.side === 'Venta') {
-      // Venta is a short sale - opening a negative position or closing a long position
-      if (!positions[symbol]) {
-        positions[symbol] = { quantity: 0, avgPrice: 0 };
-      }
-
-      // If we have a long position, treat Venta as closing it
-      if (positions[symbol].quantity > 0) {
-        const pnl = (trade.price - positions[symbol].avgPrice) * Math.abs(trade.quantity) - trade.commission;
-        positions[symbol].quantity -= Math.abs(trade.quantity);
-
-        if (Math.abs(positions[symbol].quantity) < 0.0001) {
-          delete positions[symbol];
-        }
-
-        tradesWithPnL.push({ ...trade, pnl });
-      } else {
-        // Opening or adding to short position
-        const currentValue = Math.abs(positions[symbol].quantity) * positions[symbol].avgPrice;
-        const newValue = Math.abs(trade.quantity) * trade.price;
-        const totalQuantity = Math.abs(positions[symbol].quantity) + Math.abs(trade.quantity);
-
-        positions[symbol].quantity -= Math.abs(trade.quantity);
-        positions[symbol].avgPrice = (currentValue + newValue) / totalQuantity;
-
-        tradesWithPnL.push({ ...trade, pnl: -trade.commission });
-      }
-    }
-  }
-
-  return tradesWithPnL;
+export function calculatePnL(trades: Trade[], costBasisMethod: CostBasisMethod = 'AVERAGE'): Trade[] {
+  return buildPositionLedger(trades, costBasisMethod).trades;
 }
 
-export function calculateCumulativePnL(trades: Trade[]): CumulativePnLPoint[] {
-  const tradesWithPnL = calculatePnL(trades);
+export function calculateCumulativePnL(ledger: PositionLedger): CumulativePnLPoint[] {
   let cumulative = 0;
   const points: CumulativePnLPoint[] = [];
 
-  for (const trade of tradesWithPnL) {
+  for (const trade of ledger.trades) {
     if (trade.pnl !== undefined) {
       cumulative += trade.pnl;
       points.push({
         date: trade.date,
         value: cumulative,
+        realized: cumulative,
+        unrealized: 0,
       });
     }
   }
@@ -107,17 +59,19 @@ export function calculateCumulativePnL(trades: Trade[]): CumulativePnLPoint[] {
 
 // New function for mark-to-market cumulative P&L using historical data
 export async function calculateMarkToMarketCumulativePnL(
-  transactionPortfolioJson: FirebaseTransaction[],
-  closedTransactionsJson: FirebaseTransaction[],
+  ledger: PositionLedger,
+  cashLedger: CashLedger,
+  portfolioId: string,
+  valuationOptions: ValuationOptions,
   onProgress?: (current: number, total: number, currentMonth: string) => void,
 ): Promise<CumulativePnLPoint[]> {
-  const STARTING_EQUITY = 10000;
-
   try {
-    // Get monthly portfolio history with mark-to-market values
-    const portfolioHistory = await calculateMonthlyPortfolioHistory(
-      transactionPortfolioJson,
-      closedTransactionsJson,
+    // Get portfolio history with mark-to-market values at the selected resolution
+    const portfolioHistory = await calculatePortfolioHistory(
+      ledger,
+      cashLedger,
+      portfolioId,
+      valuationOptions,
       onProgress,
     );
 
@@ -126,26 +80,29 @@ export async function calculateMarkToMarketCumulativePnL(
 
     const points: CumulativePnLPoint[] = [];
 
-    // Calculate realized P&L from closed positions
-    const trades = parseFirebaseJson(transactionPortfolioJson, closedTransactionsJson);
-    const tradesWithPnL = calculatePnL(trades);
-
-    // Convert monthly history to equity curve points
+    // Convert history to equity curve points
     for (const monthData of portfolioHistory.history) {
-      // Use last day of month for the date
-      const [year, month] = monthData.month.split('-').map(Number);
-      const lastDay = new Date(year, month, 0).getDate();
-      const dateStr = `${month.toString().padStart(2, '0')}/${lastDay.toString().padStart(2, '0')}/${year}`;
-
-      // CORRECCIÓN: Usar solo el P&L del portfolio actual (que ya incluye todo el historial)
-      // portfolio_pl ya es el P&L total de las posiciones abiertas en ese momento
-      // No necesitamos sumar P&L realizado porque eso causaría doble contabilidad
-
-      const portfolioPnL = monthData.portfolio_pl;
+      const [year, month, day] = monthData.date.split('-');
+      const dateStr = `${month}/${day}/${year}`;
 
+      // Total equity P&L = realized P&L to date + unrealized P&L of the positions still open.
+      // portfolio_pl only covers open lots, a closed lot leaves the book and moves to realized_pl, so nothing is
+      // counted twice.
       points.push({
         date: dateStr,
-        value: portfolioPnL,
+        value: monthData.realized_pl + monthData.portfolio_pl,
+        realized: monthData.realized_pl,
+        unrealized: monthData.portfolio_pl,
+        equity: monthData.cash_balance + monthData.market_value,
+        netDeposits: monthData.net_deposits,
+        exposure: monthData.portfolio_value,
+        estimated: monthData.estimated || undefined,
+        holdings: monthData.assets.map(asset => ({
+          symbol: asset.asset,
+          assetType: asset.asset_type,
+          marketValue: asset.value,
+          unrealizedPnL: asset.profit_loss,
+        })),
       });
     }
 
@@ -153,8 +110,7 @@ export async function calculateMarkToMarketCumulativePnL(
   } catch (error) {
     console.error('Error calculating mark-to-market cumulative P&L:', error);
     // Fallback to traditional calculation if API fails
-    const trades = parseFirebaseJson(transactionPortfolioJson, closedTransactionsJson);
-    return calculateCumulativePnL(trades);
+    return calculateCumulativePnL(ledger);
   }
 }
 
@@ -166,22 +122,15 @@ export function calculateTotalInvested(trades: Trade[]): number {
   return totalInvested;
 }
 
-export function calculateStats(trades: Trade[]): TradeStats {
-  const tradesWithPnL = calculatePnL(trades);
-
-  // Include all closed positions (Cierre/Venta with P&L) with sanity check
-  const closingTrades = tradesWithPnL.filter(t => {
-    const hasValidPnL = (t.side === 'Cierre' || t.side === 'Venta') && t.pnl !== undefined && t.pnl !== 0;
-
-    // SANITY CHECK: Same filter as monthly performance
-    const reasonablePnL = Math.abs(t.pnl || 0) <= 3000;
+// Closed positions: trades that relieved open lots, whatever their side (a Compra covering a short closes too). The
+// pnl alone does not tell them apart, since opening trades carry their commission as a negative pnl
+export function getClosingTrades(ledger: PositionLedger): Trade[] {
+  return ledger.trades.filter(t => t.closedLots !== undefined && t.closedLots.length > 0);
+}
 
-    if (hasValidPnL && !reasonablePnL) {
-      console.warn(`⚠️ Excluding suspicious P&L from stats: ${t.symbol} ${t.side} $${t.pnl?.toFixed(2)} on ${t.date}`);
-    }
-
-    return hasValidPnL && reasonablePnL;
-  });
+// `excludedTradeIds` are the closing trades the outlier policy keeps out (see outliers)
+export function calculateStats(ledger: PositionLedger, excludedTradeIds: Set<string> = new Set()): TradeStats {
+  const closingTrades = getClosingTrades(ledger).filter(t => !excludedTradeIds.has(t.id));
 
   const totalPnL = closingTrades.reduce((sum, t) => sum + (t.pnl || 0), 0);
   const winningTrades = closingTrades.filter(t => (t.pnl || 0) > 0);
@@ -202,6 +151,34 @@ export function calculateStats(trades: Trade[]): TradeStats {
 
   const averageTradePnL = totalTrades > 0 ? totalPnL / totalTrades : 0;
 
+  const grossProfit = winningTrades.reduce((sum, t) => sum + (t.pnl || 0), 0);
+  const grossLoss = Math.abs(losingTrades.reduce((sum, t) => sum + (t.pnl || 0), 0));
+  const profitFactor = grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0;
+
+  const winProbability = totalTrades > 0 ? winningTrades.length / totalTrades : 0;
+  const lossProbability = totalTrades > 0 ? losingTrades.length / totalTrades : 0;
+  const expectancy = winProbability * averageWin + lossProbability * averageLoss;
+  const payoffRatio = averageLoss < 0 ? averageWin / Math.abs(averageLoss) : averageWin > 0 ? Infinity : 0;
+  // Kelly: W - (1 - W) / R, with W the win probability and R the payoff ratio
+  const kellyFraction = payoffRatio > 0 ? winProbability - (1 - winProbability) / payoffRatio : 0;
+
+  // Longest runs of winning and losing positions, in closing order
+  let maxConsecutiveWins = 0;
+  let maxConsecutiveLosses = 0;
+  let currentWins = 0;
+  let currentLosses = 0;
+  for (const trade of closingTrades) {
+    if ((trade.pnl || 0) > 0) {
+      currentWins++;
+      currentLosses = 0;
+    } else {
+      currentLosses++;
+      currentWins = 0;
+    }
+    maxConsecutiveWins = Math.max(maxConsecutiveWins, currentWins);
+    maxConsecutiveLosses = Math.max(maxConsecutiveLosses, currentLosses);
+  }
+
   return {
     totalPnL,
     totalTrades,
@@ -213,28 +190,21 @@ export function calculateStats(trades: Trade[]): TradeStats {
     largestWin,
     largestLoss,
     averageTradePnL,
+    profitFactor,
+    expectancy,
+    payoffRatio,
+    kellyFraction,
+    maxConsecutiveWins,
+    maxConsecutiveLosses,
   };
 }
 
-export function calculateMonthlyPerformance(trades: Trade[]): MonthlyPerformance[] {
-  const tradesWithPnL = calculatePnL(trades);
-
-  // Filter trades that generate realized P&L (closing trades only)
-  const closingTrades = tradesWithPnL.filter(t => {
-    // Only include trades that CLOSE positions and have actual P&L
-    const hasValidPnL =
-      (t.side === 'Cierre' || t.side === 'Venta') && t.pnl !== undefined && t.pnl !== 0 && Math.abs(t.pnl) > 0.01;
-
-    // SANITY CHECK: Filter out abnormally high P&L trades that are likely data errors
-    // For a portfolio of ~$10-15k, individual trade P&L > $3k is suspicious
-    const reasonablePnL = Math.abs(t.pnl || 0) <= 3000;
-
-    if (hasValidPnL && !reasonablePnL) {
-      console.warn(`⚠️ Filtering out suspicious P&L: ${t.symbol} ${t.side} $${t.pnl?.toFixed(2)} on ${t.date}`);
-    }
-
-    return hasValidPnL && reasonablePnL;
-  });
+export function calculateMonthlyPerformance(
+  ledger: PositionLedger,
+  excludedTradeIds: Set<string> = new Set(),
+): MonthlyPerformance[] {
+  // Only closing trades with actual P&L, minus the outliers
+  const closingTrades = getClosingTrades(ledger).filter(t => Math.abs(t.pnl) > 0.01 && !excludedTradeIds.has(t.id));
 
   const monthlyData: { [month: string]: { trades: number; pnl: number } } = {};
 
@@ -273,7 +243,7 @@ interface FirestoreReference {
   _path: FirestorePath;
 }
 
-interface FirebaseTransaction {
+export interface FirebaseTransaction {
   id: string;
   ticker: string;
   amount: number;
@@ -285,6 +255,7 @@ interface FirebaseTransaction {
   name?: string;
   amount_usd?: number;
   type?: string; // Campo tipo del activo (ej: "Cripto", "Accion")
+  allocation?: number; // % del portafolio asignado a la operación
 }
 
 function convertTimestampToDate(timestamp: FirestoreTimestamp): string {
@@ -304,41 +275,145 @@ function convertTimestampToTime(timestamp: FirestoreTimestamp): string {
 }
 
 function getPortfolioId(portfolioRef: FirestoreReference): string {
-  return portfolioRef._path.segments[1];
+  const segments = portfolioRef._path.segments;
+  return segments[segments.length - 1];
+}
+
+// Sentinel portfolio id used for the aggregate "all portfolios" view
+export const ALL_PORTFOLIOS = 'all';
+
+function belongsToPortfolio(transaction: FirebaseTransaction, portfolioId: string): boolean {
+  return portfolioId === ALL_PORTFOLIOS || getPortfolioId(transaction.id_portfolio) === portfolioId;
+}
+
+export interface PortfolioSummary {
+  id: string;
+  transactions: number;
+  firstTransaction: number;
+  lastTransaction: number;
+}
+
+export const formatPortfolioLabel = (portfolio: PortfolioSummary) =>
+  `Portafolio ${portfolio.id.substring(0, 6)} (${portfolio.transactions} transacciones)`;
+
+// Discover every portfolio referenced by the dumps, most active first
+export function discoverPortfolios(
+  transactionPortfolioJson: FirebaseTransaction[],
+  closedTransactionsJson: FirebaseTransaction[],
+): PortfolioSummary[] {
+  const portfolios: { [id: string]: PortfolioSummary } = {};
+
+  for (const transaction of [...transactionPortfolioJson, ...closedTransactionsJson]) {
+    const portfolioId = getPortfolioId(transaction.id_portfolio);
+    const createdTime = transaction.created_time._seconds;
+
+    if (!portfolios[portfolioId]) {
+      portfolios[portfolioId] = {
+        id: portfolioId,
+        transactions: 0,
+        firstTransaction: createdTime,
+        lastTransaction: createdTime,
+      };
+    }
+
+    const portfolio = portfolios[portfolioId];
+    portfolio.transactions += 1;
+    portfolio.firstTransaction = Math.min(portfolio.firstTransaction, createdTime);
+    portfolio.lastTransaction = Math.max(portfolio.lastTransaction, createdTime);
+  }
+
+  return Object.values(portfolios).sort((a, b) => b.transactions - a.transactions);
 }
 
 function getAssetId(assetRef?: FirestoreReference): string | null {
   return assetRef ? assetRef._path.segments[1] : null;
 }
 
-interface AssetPosition {
+export interface AssetPosition {
   asset: string;
   id_asset: string;
   total_shares: number;
+  open_shares: number;
   avg_price: number;
   closed_shares: number;
+  over_closed_shares: number;
   is_closed: boolean;
+  is_short: boolean;
   total_invested: number;
   closed_value: number;
   profit_loss: number;
   date_closed?: number;
 }
 
+// A position from the trade that opened it to the one that brought it back to flat
+export interface RoundTrip {
+  id: string;
+  symbol: string;
+  assetType?: string;
+  direction: LotDirection;
+  quantity: number;
+  openedAt: number;
+  closedAt: number;
+  holdingDays: number;
+  // Quantity-weighted prices of the opening and closing executions
+  entryPrice: number;
+  exitPrice: number;
+  // Net of the commissions of its executions
+  realizedPnL: number;
+  // Realized P&L over the cost basis of the closed lots, in %
+  returnPercent: number;
+  executions: Trade[];
+}
+
+// A holding at the latest close, as shown in the open positions table
+export interface OpenPosition {
+  key: string;
+  symbol: string;
+  assetType?: string;
+  isShort: boolean;
+  quantity: number;
+  averagePrice: number;
+  costBasis: number;
+  // Latest close, or the average price when the provider had none (see estimated)
+  lastPrice: number;
+  estimated: boolean;
+  marketValue: number;
+  unrealizedPnL: number;
+  // Unrealized P&L over the cost basis, in %
+  unrealizedPnLPercent: number;
+  // Share of the gross market value of all open positions, in %
+  weight: number;
+  daysHeld: number;
+}
+
 interface MonthlyAsset {
   asset: string;
   id_asset: string;
+  asset_type?: string;
   shares: number;
   avg_price: number;
   price_close: number;
   value: number;
   profit_loss: number;
+  // price_close was estimated by the missing-price policy
+  estimated?: boolean;
 }
 
 interface MonthlyPortfolioHistory {
   month: string;
   assets: MonthlyAsset[];
   portfolio_value: number;
+  // Signed market value: longs add, shorts (owed shares) subtract
+  market_value: number;
+  cash_balance: number;
+  net_deposits: number;
+  // Unrealized P&L of the open positions
   portfolio_pl: number;
+  // Realized P&L of every trade up to this date, net of commissions
+  realized_pl: number;
+  estimated?: boolean;
+  // YYYY-MM-DD valuation date (the month-end in monthly resolution)
+  date: string;
 }
 
 interface PortfolioHistory {
@@ -346,254 +421,276 @@ interface PortfolioHistory {
   history: MonthlyPortfolioHistory[];
 }
 
-interface GroupedAssetTransaction {
-  asset: string;
-  id_asset: string;
-  positions: {
-    id: string;
-    ticker: string;
-    name: string;
-    operation: string;
-    amount: number;
-    price: number;
-    amount_usd: number;
-    created_time: number;
-  }[];
-}
-
-export function calculateAssetPositions(
-  transactionPortfolioJson: FirebaseTransaction[],
-  closedTransactionsJson: FirebaseTransaction[],
-): AssetPosition[] {
-  const TARGET_PORTFOLIO_ID = 'Kq0kpiyAuukdS2l4uvDb';
-
-  // First, group transactions by id_asset
-  const groupedAssets: { [id_asset: string]: GroupedAssetTransaction } = {};
-
-  // Combine both arrays
-  const allTransactions = [...transactionPortfolioJson, ...closedTransactionsJson];
-
-  // Group transactions by id_asset
-  for (const transaction of allTransactions) {
-    const portfolioId = getPortfolioId(transaction.id_portfolio);
-
-    if (portfolioId !== TARGET_PORTFOLIO_ID) {
-      continue;
-    }
-
-    // Extract id_asset from the transaction
-    const id_asset = getAssetId(transaction.id_asset) || transaction.ticker; // fallback to ticker if no id_asset
-
-    if (!groupedAssets[id_asset]) {
-      groupedAssets[id_asset] = {
-        asset: transaction.ticker,
-        id_asset: id_asset,
-        positions: [],
-      };
-    }
-
-    groupedAssets[id_asset].positions.push({
-      id: transaction.id,
-      ticker: transaction.ticker,
-      name: transaction.name || transaction.ticker,
-      operation: transaction.operation,
-      amount: transaction.amount,
-      price: transaction.price,
-      amount_usd: transaction.amount * transaction.price,
-      created_time: transaction.created_time._seconds,
-    });
-  }
-
-  // Calculate positions for each asset
+export function calculateAssetPositions(ledger: PositionLedger): AssetPosition[] {
   const assetPositions: AssetPosition[] = [];
 
-  for (const [id_asset, grouped] of Object.entries(groupedAssets)) {
-    // Sort positions by date
-    grouped.positions.sort((a, b) => a.created_time - b.created_time);
-
+  for (const [id_asset, entries] of Object.entries(ledger.entriesByPosition)) {
     let totalShares = 0;
     let totalInvested = 0;
     let closedShares = 0;
     let closedValue = 0;
+    let overClosedShares = 0;
+    let profitLoss = 0;
     let isShort = false;
     let dateClose: number | undefined;
 
-    // Process each position chronologically
-    for (const position of grouped.positions) {
-      if (position.operation === 'Compra') {
-        if (totalShares < 0) {
-          // Closing short position
-          const sharesToClose = Math.min(Math.abs(totalShares), position.amount);
-          closedShares += sharesToClose;
-          closedValue += sharesToClose * position.price;
-          totalShares += position.amount;
-
-          if (position.amount > sharesToClose) {
-            // Opening long with remaining shares
-            const remainingShares = position.amount - sharesToClose;
-            totalInvested += remainingShares * position.price;
-          }
-        } else {
-          // Opening or adding to long position
-          totalShares += position.amount;
-          totalInvested += position.amount_usd;
-        }
-      } else if (position.operation === 'Venta') {
-        if (totalShares > 0) {
-          // Closing long position
-          const sharesToClose = Math.min(totalShares, position.amount);
-          closedShares += sharesToClose;
-          closedValue += sharesToClose * position.price;
-          totalShares -= position.amount;
-
-          if (position.amount > sharesToClose) {
-            // Opening short with remaining shares
-            const remainingShares = position.amount - sharesToClose;
-            totalInvested += remainingShares * position.price;
-            isShort = true;
-          }
-        } else {
-          // Opening or adding to short position
-          totalShares -= position.amount;
-          totalInvested += position.amount_usd;
-          isShort = true;
-        }
-      } else if (position.operation === 'Cierre') {
-        // Closing any position
-        closedShares += Math.abs(totalShares);
-        closedValue += Math.abs(totalShares) * position.price;
-        totalShares = 0;
-        dateClose = position.created_time;
+    // Entries already follow the shared closing model (see applyTradeToBook)
+    for (const { trade, result, position } of entries) {
+      totalShares += result.openedQuantity;
+      totalInvested += result.openedQuantity * trade.price;
+      closedShares += result.closedQuantity;
+      closedValue += result.closedQuantity * trade.price;
+      overClosedShares += result.overClosedQuantity;
+      profitLoss += result.realizedPnL;
+
+      if (position.direction) {
+        isShort = position.direction === 'short';
       }
-    }
 
-    // Calculate average price and profit/loss
-    const avgPrice = closedShares > 0 ? totalInvested / Math.abs(totalShares + closedShares) : 0;
-    let profitLoss = 0;
-
-    if (isShort) {
-      // For short positions: profit when sell price > buy price
-      profitLoss = totalInvested - closedValue;
-    } else {
-      // For long positions: profit when buy price < sell price
-      profitLoss = closedValue - totalInvested;
+      if (result.closedQuantity > 0 && position.quantity < QUANTITY_EPSILON) {
+        dateClose = Math.floor(getTradeTimestamp(trade) / 1000);
+      }
     }
 
+    const lastPosition = entries[entries.length - 1].position;
+
     assetPositions.push({
-      asset: grouped.asset,
+      asset: lastPosition.symbol,
       id_asset: id_asset,
-      total_shares: Math.abs(totalShares + closedShares),
-      avg_price: avgPrice,
+      total_shares: totalShares,
+      open_shares: lastPosition.quantity,
+      avg_price: totalShares > 0 ? totalInvested / totalShares : 0,
       closed_shares: closedShares,
-      is_closed: Math.abs(totalShares) < 0.001,
+      over_closed_shares: overClosedShares,
+      is_closed: lastPosition.quantity < QUANTITY_EPSILON,
+      is_short: isShort,
       total_invested: totalInvested,
       closed_value: closedValue,
       profit_loss: profitLoss,
-      date_closed: dateClose,
+      date_closed: lastPosition.quantity < QUANTITY_EPSILON ? dateClose : undefined,
     });
   }
 
   return assetPositions;
 }
 
-// Helper function to get historical prices for multiple tickers using batch API
-async function getBatchHistoricalPrices(
-  tickerInfo: Array<{ ticker: string; assetType: string }>,
-  year: number,
-  month: number,
-): Promise<{ [ticker: string]: number }> {
-  try {
-    // Get last day of the month for closing price
-    const lastDay = new Date(year, month, 0).getDate();
-    const dateStr = `${year}-${month.toString().padStart(2, '0')}-${lastDay.toString().padStart(2, '0')}`;
-
-    // Function to convert Firebase asset types to API format
-    const convertAssetType = (firebaseType: string): string => {
-      switch (firebaseType) {
-        case 'Cripto':
-          return 'crypto';
-        case 'Accion':
-          return 'stock';
-        case 'ETF':
-          return 'etf';
-        case 'Forex':
-          return 'forex';
-        default:
-          console.warn(`Unknown asset type: ${firebaseType}, defaulting to stock`);
-          return 'stock';
+/*
+ * Closed round trips of every position, in closing order. A trip starts when a position opens from flat and ends when
+ * it is back to flat. A trade that flips the position (e.g. a Venta larger than the open long) closes one trip and
+ * opens the next; its commission stays with the trip it closes. Trips still open are left out (see OpenPosition).
+ */
+export function calculateRoundTrips(ledger: PositionLedger): RoundTrip[] {
+  const roundTrips: RoundTrip[] = [];
+
+  for (const [key, entries] of Object.entries(ledger.entriesByPosition)) {
+    let trip: {
+      direction: LotDirection;
+      openedAt: number;
+      openedQuantity: number;
+      openedValue: number;
+      closedQuantity: number;
+      closedValue: number;
+      costBasis: number;
+      realizedPnL: number;
+      executions: Trade[];
+    } | null = null;
+
+    for (const { trade, result, position, timestamp } of entries) {
+      if (trip && result.closedQuantity > 0) {
+        trip.closedQuantity += result.closedQuantity;
+        trip.closedValue += result.closedQuantity * trade.price;
+        trip.costBasis += result.closures.reduce((sum, closure) => sum + closure.quantity * closure.openPrice, 0);
+        trip.realizedPnL += trade.pnl || 0;
+        trip.executions.push(trade);
+
+        if (position.quantity < QUANTITY_EPSILON || position.direction !== trip.direction) {
+          roundTrips.push({
+            id: `${key}-${trip.openedAt}`,
+            symbol: position.symbol,
+            assetType: position.assetType,
+            direction: trip.direction,
+            quantity: trip.openedQuantity,
+            openedAt: trip.openedAt,
+            closedAt: timestamp,
+            holdingDays: Math.floor((timestamp - trip.openedAt) / DAY_MS),
+            entryPrice: trip.openedValue / trip.openedQuantity,
+            exitPrice: trip.closedValue / trip.closedQuantity,
+            realizedPnL: trip.realizedPnL,
+            returnPercent: trip.costBasis > 0 ? (trip.realizedPnL / trip.costBasis) * 100 : 0,
+            executions: trip.executions,
+          });
+          trip = null;
+        }
       }
-    };
 
-    // Prepare symbols array using real asset type information
-    const symbols = tickerInfo.map(info => {
-      const apiType = convertAssetType(info.assetType);
-      return {
-        symbol: info.ticker,
-        type: apiType,
-      };
-    });
+      if (result.openedQuantity > 0) {
+        const flipped = result.closedQuantity > 0;
+
+        if (!trip) {
+          trip = {
+            direction: position.direction,
+            openedAt: timestamp,
+            openedQuantity: 0,
+            openedValue: 0,
+            closedQuantity: 0,
+            closedValue: 0,
+            costBasis: 0,
+            realizedPnL: 0,
+            executions: [],
+          };
+        }
 
-    const requestBody = {
-      symbols: symbols,
-      date: dateStr,
+        trip.openedQuantity += result.openedQuantity;
+        trip.openedValue += result.openedQuantity * trade.price;
+        trip.executions.push(trade);
+        if (!flipped) {
+          trip.realizedPnL += trade.pnl || 0;
+        }
+      }
+    }
+  }
+
+  return roundTrips.sort((a, b) => a.closedAt - b.closedAt);
+}
+
+// Positions open at `timestamp` valued at `prices`. Positions without a price are kept at their average price, so
+// they show no unrealized P&L instead of disappearing from the table
+export function calculateOpenPositions(ledger: PositionLedger, prices: PriceMap, timestamp: number): OpenPosition[] {
+  const positions = getOpenPositionsAt(ledger, timestamp).map(position => {
+    const isShort = position.direction === 'short';
+    const price = prices[position.symbol] || 0;
+    const lastPrice = price > 0 ? price : position.averagePrice;
+    const marketValue = position.quantity * lastPrice;
+    const unrealizedPnL = (isShort ? -1 : 1) * (lastPrice - position.averagePrice) * position.quantity;
+
+    return {
+      key: position.key,
+      symbol: position.symbol,
+      assetType: position.assetType,
+      isShort,
+      quantity: position.quantity,
+      averagePrice: position.averagePrice,
+      costBasis: position.costBasis,
+      lastPrice,
+      estimated: price <= 0,
+      marketValue,
+      unrealizedPnL,
+      unrealizedPnLPercent: position.costBasis > 0 ? (unrealizedPnL / position.costBasis) * 100 : 0,
+      weight: 0,
+      daysHeld: position.openedAt !== null ? Math.floor((timestamp - position.openedAt) / DAY_MS) : 0,
     };
+  });
 
-    const startTime = Date.now();
-    const response = await fetch('https://bitfinserver-production.up.railway.app/api/tickers/historical-prices/date', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
+  const grossValue = positions.reduce((sum, position) => sum + position.marketValue, 0);
+  return positions.map(position => ({
+    ...position,
+    weight: grossValue > 0 ? (position.marketValue / grossValue) * 100 : 0,
+  }));
+}
 
-    if (!response.ok) {
-      console.warn(`Failed to get batch prices on ${dateStr}, status: ${response.status}`);
-      dataLogger.logError(
-        `API request failed with status ${response.status}`,
-        `getBatchHistoricalPrices for ${dateStr}`,
-      );
-      return {};
-    }
+// Latest close of every position open at `timestamp`, through the same provider, cache and overrides as the equity
+// curve
+export async function fetchLatestPrices(
+  ledger: PositionLedger,
+  priceOverrides: PriceOverride[],
+  timestamp: number,
+): Promise<PriceMap> {
+  const tickerInfo = getOpenPositionsAt(ledger, timestamp).map(position => ({
+    ticker: position.symbol,
+    assetType: position.assetType || 'Accion',
+  }));
+
+  if (tickerInfo.length === 0) {
+    return {};
+  }
 
-    const data = await response.json();
-    const duration = Date.now() - startTime;
+  return getBatchHistoricalPrices(tickerInfo, formatIsoDate(new Date(timestamp)), priceOverrides);
+}
 
-    // Log API call
-    dataLogger.logApiCall(
-      'https://bitfinserver-production.up.railway.app/api/tickers/historical-prices/date',
-      requestBody,
-      data,
-      duration,
-    );
+// Helper function to get closing prices on `dateStr` (YYYY-MM-DD) for multiple tickers from the configured price provider
+async function getBatchHistoricalPrices(
+  tickerInfo: Array<{ ticker: string; assetType: string }>,
+  dateStr: string,
+  priceOverrides: PriceOverride[],
+): Promise<PriceMap> {
+  // Overrides of the exact date take precedence, the provider is only asked for the remaining tickers and the latest
+  // earlier override fills the closes it could not find
+  const overriddenPrices = getOverriddenPrices(
+    priceOverrides,
+    tickerInfo.map(info => info.ticker),
+    dateStr,
+  );
+  const pendingTickers = tickerInfo.filter(info => !(info.ticker in overriddenPrices));
+
+  for (const [symbol, price] of Object.entries(overriddenPrices)) {
+    dataLogger.logPriceData(symbol, dateStr, price);
+  }
 
-    if (data.success && data.data) {
-      const priceMap: { [ticker: string]: number } = {};
+  if (pendingTickers.length === 0) {
+    return overriddenPrices;
+  }
 
-      for (const priceData of data.data) {
-        if (priceData.priceFound && priceData.price > 0) {
-          const symbolInfo = symbols.find(s => s.symbol === priceData.symbol);
+  try {
+    const priceMap = await retryWithBackoff(
+      () =>
+        getPriceProvider().getPrices(
+          pendingTickers.map(info => ({ symbol: info.ticker, assetType: info.assetType })),
+          dateStr,
+        ),
+      {
+        onRetry: (attempt, error) => console.warn(`Retrying prices for ${dateStr} (attempt ${attempt}):`, error),
+      },
+    );
 
-          priceMap[priceData.symbol] = priceData.price;
-          dataLogger.logPriceData(priceData.symbol, dateStr, priceData.price);
-        } else {
-          console.warn(`No price data for ${priceData.symbol} on ${dateStr}`);
-          dataLogger.logError(`No price data found`, `${priceData.symbol} on ${dateStr}`);
-          priceMap[priceData.symbol] = 0;
-        }
-      }
+    const fallbackPrices = getLatestOverriddenPrices(
+      priceOverrides,
+      pendingTickers.filter(info => !(priceMap[info.ticker] > 0)).map(info => info.ticker),
+      dateStr,
+    );
+    const prices = { ...priceMap, ...fallbackPrices };
 
-      return priceMap;
-    } else {
-      console.warn(`No batch price data for ${dateStr}`);
-      return {};
+    for (const [symbol, price] of Object.entries(prices)) {
+      if (price > 0) {
+        dataLogger.logPriceData(symbol, dateStr, price);
+      } else {
+        console.warn(`No price data for ${symbol} on ${dateStr}`);
+        dataLogger.logError(`No price data found`, `${symbol} on ${dateStr}`);
+      }
     }
+
+    return { ...prices, ...overriddenPrices };
   } catch (error) {
-    console.error(`Error fetching batch prices for ${year}-${month}:`, error);
-    return {};
+    console.error(`Error fetching batch prices for ${dateStr}:`, error);
+    dataLogger.logError(String(error), `getBatchHistoricalPrices for ${dateStr}`);
+    return {
+      ...getLatestOverriddenPrices(
+        priceOverrides,
+        pendingTickers.map(info => info.ticker),
+        dateStr,
+      ),
+      ...overriddenPrices,
+    };
   }
 }
 
+// Closes of the benchmarks on every date of the equity curve, through the same provider, cache and overrides as the
+// portfolio's own prices
+export async function fetchBenchmarkPrices(
+  benchmarks: PriceRequest[],
+  points: CumulativePnLPoint[],
+  priceOverrides: PriceOverride[],
+): Promise<BenchmarkPrices> {
+  const tickerInfo = benchmarks.map(benchmark => ({ ticker: benchmark.symbol, assetType: benchmark.assetType }));
+  const priceMaps = await mapWithConcurrency(points, getPriceConcurrency(), point => {
+    const [month, day, year] = point.date.split('/');
+    return getBatchHistoricalPrices(tickerInfo, `${year}-${month}-${day}`, priceOverrides);
+  });
+
+  return Object.fromEntries(
+    benchmarks.map(benchmark => [benchmark.symbol, priceMaps.map(prices => prices[benchmark.symbol] || 0)]),
+  );
+}
+
 // Helper function to generate month range
 function generateMonthRange(startDate: Date, endDate: Date): string[] {
   const months: string[] = [];
@@ -609,197 +706,172 @@ function generateMonthRange(startDate: Date, endDate: Date): string[] {
   return months;
 }
 
-export async function calculateMonthlyPortfolioHistory(
-  transactionPortfolioJson: FirebaseTransaction[],
-  closedTransactionsJson: FirebaseTransaction[],
-  onProgress?: (current: number, total: number, currentMonth: string) => void,
-): Promise<PortfolioHistory> {
-  const TARGET_PORTFOLIO_ID = 'Kq0kpiyAuukdS2l4uvDb';
+interface ValuationDate {
+  // Label of the period in logs and progress reports
+  key: string;
+  // YYYY-MM-DD close requested from the price provider
+  date: string;
+  // End of that day, positions open at this time are valued
+  timestamp: number;
+}
+
+function formatIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function generateValuationDates(startDate: Date, endDate: Date, resolution: ValuationResolution): ValuationDate[] {
+  if (resolution === 'monthly') {
+    return generateMonthRange(startDate, endDate).map(monthKey => {
+      const [year, month] = monthKey.split('-').map(Number);
+      const monthEnd = new Date(year, month, 0, 23, 59, 59);
+      return { key: monthKey, date: formatIsoDate(monthEnd), timestamp: monthEnd.getTime() };
+    });
+  }
 
-  // Get all transactions sorted by date
-  const allTransactions = [...transactionPortfolioJson, ...closedTransactionsJson]
-    .filter(t => getPortfolioId(t.id_portfolio) === TARGET_PORTFOLIO_ID)
-    .sort((a, b) => a.created_time._seconds - b.created_time._seconds);
+  const dates: ValuationDate[] = [];
+  const current = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate(), 23, 59, 59);
+  const end = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate(), 23, 59, 59);
 
-  if (allTransactions.length === 0) {
-    return { portfolio: TARGET_PORTFOLIO_ID, history: [] };
+  while (current <= end) {
+    const weekday = current.getDay();
+    // Daily closes are taken on weekdays (stock markets are closed on weekends), weekly closes on Fridays
+    if (resolution === 'daily' ? weekday !== 0 && weekday !== 6 : weekday === 5) {
+      const date = formatIsoDate(current);
+      dates.push({ key: date, date, timestamp: current.getTime() });
+    }
+    current.setDate(current.getDate() + 1);
+  }
+
+  return dates;
+}
+
+export async function calculatePortfolioHistory(
+  ledger: PositionLedger,
+  cashLedger: CashLedger,
+  portfolioId: string,
+  valuationOptions: ValuationOptions,
+  onProgress?: (current: number, total: number, currentMonth: string) => void,
+): Promise<PortfolioHistory> {
+  if (ledger.entries.length === 0) {
+    return { portfolio: portfolioId, history: [] };
   }
 
   // Get date range
-  const startDate = new Date(allTransactions[0].created_time._seconds * 1000);
+  const startDate = new Date(ledger.entries[0].timestamp);
   const endDate = new Date(); // Current date
-  const monthRange = generateMonthRange(startDate, endDate);
-
-  const history: MonthlyPortfolioHistory[] = [];
+  const valuationDates = generateValuationDates(startDate, endDate, valuationOptions.resolution);
+
+  // Snapshots of the positions still open at each valuation date, straight from the ledger, computed before any
+  // price request
+  const snapshots = valuationDates.map(valuationDate => ({
+    ...valuationDate,
+    openPositions: getOpenPositionsAt(ledger, valuationDate.timestamp),
+  }));
+
+  // Fetch all dates concurrently; progress counts completed dates since they finish out of order
+  let completedDates = 0;
+  const snapshotPrices = await mapWithConcurrency(snapshots, getPriceConcurrency(), async snapshot => {
+    let priceMap: PriceMap = {};
+
+    if (snapshot.openPositions.length > 0) {
+      // Get ticker info with asset types for this date
+      const tickerInfoMap = new Map<string, string>();
+      snapshot.openPositions.forEach(position => {
+        tickerInfoMap.set(position.symbol, position.assetType || 'Accion');
+      });
 
-  // Track positions over time
-  const positions: {
-    [id_asset: string]: {
-      ticker: string;
-      shares: number;
-      totalCost: number;
-      isShort: boolean;
-      transactions: FirebaseTransaction[];
-      assetType: string;
-    };
-  } = {};
+      const tickerInfo = Array.from(tickerInfoMap.entries()).map(([ticker, assetType]) => ({
+        ticker,
+        assetType,
+      }));
 
-  for (let i = 0; i < monthRange.length; i++) {
-    const monthKey = monthRange[i];
-    const [year, month] = monthKey.split('-').map(Number);
-    const monthStart = new Date(year, month - 1, 1);
-    const monthEnd = new Date(year, month, 0, 23, 59, 59);
+      priceMap = await getBatchHistoricalPrices(tickerInfo, snapshot.date, valuationOptions.priceOverrides);
+    }
 
-    // Report progress
+    completedDates++;
     if (onProgress) {
-      onProgress(i + 1, monthRange.length, monthKey);
+      onProgress(completedDates, snapshots.length, snapshot.key);
     }
 
-    // Process transactions that happened up to this month
-    const transactionsThisMonth = allTransactions.filter(t => {
-      const transactionDate = new Date(t.created_time._seconds * 1000);
-      return transactionDate <= monthEnd;
-    });
+    return priceMap;
+  });
 
-    // Update positions based on transactions up to this month
-    const currentPositions: { [id_asset: string]: (typeof positions)[''] } = {};
-
-    for (const transaction of transactionsThisMonth) {
-      const id_asset = getAssetId(transaction.id_asset) || transaction.ticker;
-
-      if (!currentPositions[id_asset]) {
-        currentPositions[id_asset] = {
-          ticker: transaction.ticker,
-          shares: 0,
-          totalCost: 0,
-          isShort: false,
-          transactions: [],
-          assetType: transaction.type || 'Accion', // Usar el tipo del JSON original
-        };
-      }
+  const history: MonthlyPortfolioHistory[] = [];
 
-      const position = currentPositions[id_asset];
-      position.transactions.push(transaction);
-
-      if (transaction.operation === 'Compra') {
-        if (position.shares < 0) {
-          // Closing short position
-          const sharesToClose = Math.min(Math.abs(position.shares), transaction.amount);
-          const avgCost = Math.abs(position.shares) > 0 ? position.totalCost / Math.abs(position.shares) : 0;
-          position.shares += sharesToClose;
-          position.totalCost -= sharesToClose * avgCost; // Reduce cost basis when closing
-
-          if (transaction.amount > sharesToClose) {
-            // Opening long with remaining
-            const remainingShares = transaction.amount - sharesToClose;
-            position.shares += remainingShares;
-            position.totalCost += remainingShares * transaction.price;
-            position.isShort = false;
-          } else if (Math.abs(position.shares) < 0.001) {
-            // Position fully closed
-            position.totalCost = 0;
-            position.isShort = false;
-          }
-        } else {
-          // Opening or adding to long
-          position.totalCost += transaction.amount * transaction.price;
-          position.shares += transaction.amount;
-          position.isShort = false;
-        }
-      } else if (transaction.operation === 'Venta') {
-        if (position.shares > 0) {
-          // Closing long position
-          const sharesToClose = Math.min(position.shares, transaction.amount);
-          const avgCost = position.shares > 0 ? position.totalCost / position.shares : 0;
-          position.shares -= sharesToClose;
-          position.totalCost -= sharesToClose * avgCost; // Reduce cost basis when closing
-
-          if (transaction.amount > sharesToClose) {
-            // Opening short with remaining
-            const remainingShares = transaction.amount - sharesToClose;
-            position.shares -= remainingShares;
-            position.totalCost += remainingShares * transaction.price;
-            position.isShort = true;
-          } else if (Math.abs(position.shares) < 0.001) {
-            // Position fully closed
-            position.totalCost = 0;
-            position.isShort = false;
-          }
-        } else {
-          // Opening or adding to short
-          position.totalCost += transaction.amount * transaction.price;
-          position.shares -= transaction.amount;
-          position.isShort = true;
-        }
-      } else if (transaction.operation === 'Cierre') {
-        // Close position completely
-        position.shares = 0;
-        position.totalCost = 0;
-        position.isShort = false;
-      }
-    }
+  for (let i = 0; i < snapshots.length; i++) {
+    const { key: monthKey, date, timestamp, openPositions } = snapshots[i];
+    const priceMap = snapshotPrices[i];
 
-    // Calculate month-end values for open positions
+    // Calculate values for open positions at this valuation date
     const monthlyAssets: MonthlyAsset[] = [];
     let portfolioValue = 0;
+    let marketValue = 0;
     let portfolioPL = 0;
 
-    // Get unique tickers for batch processing
-    const openPositions = Object.entries(currentPositions).filter(([_, position]) => Math.abs(position.shares) > 0.001);
-
     // Log position tracking for this month
-    dataLogger.logPositionTracking(monthKey, currentPositions);
+    dataLogger.logPositionTracking(
+      monthKey,
+      Object.fromEntries(
+        openPositions.map(position => [
+          position.key,
+          {
+            ticker: position.symbol,
+            shares: position.direction === 'short' ? -position.quantity : position.quantity,
+            totalCost: position.costBasis,
+            isShort: position.direction === 'short',
+          },
+        ]),
+      ),
+    );
 
-    if (openPositions.length > 0) {
-      // Get ticker info with asset types for this month
-      const tickerInfoMap = new Map<string, string>();
-      openPositions.forEach(([_, position]) => {
-        tickerInfoMap.set(position.ticker, position.assetType);
-      });
+    for (const position of openPositions) {
+      let priceClose = priceMap[position.symbol] || 0;
+      let estimated = false;
 
-      const tickerInfo = Array.from(tickerInfoMap.entries()).map(([ticker, assetType]) => ({
-        ticker,
-        assetType,
-      }));
+      if (priceClose <= 0) {
+        const series = snapshotPrices.map(prices => prices[position.symbol] || 0);
+        priceClose = estimateMissingPrice(valuationOptions.missingPricePolicy, series, i, position.averagePrice);
+        estimated = priceClose > 0;
+      }
 
-      // Fetch all prices in one batch call
-      const priceMap = await getBatchHistoricalPrices(tickerInfo, year, month);
-
-      for (const [id_asset, position] of openPositions) {
-        const priceClose = priceMap[position.ticker] || 0;
-
-        if (priceClose > 0) {
-          const avgPrice = position.totalCost / Math.abs(position.shares);
-          const value = Math.abs(position.shares) * priceClose;
-
-          let profitLoss = 0;
-          if (position.isShort) {
-            // Short position: profit when avgPrice > priceClose (sold high, buying low)
-            profitLoss = (avgPrice - priceClose) * Math.abs(position.shares);
-          } else {
-            // Long position: profit when priceClose > avgPrice (bought low, selling high)
-            profitLoss = (priceClose - avgPrice) * Math.abs(position.shares);
-          }
-
-          monthlyAssets.push({
-            asset: position.ticker,
-            id_asset: id_asset,
-            shares: Math.abs(position.shares),
-            avg_price: avgPrice,
-            price_close: priceClose,
-            value: value,
-            profit_loss: profitLoss,
-          });
+      if (priceClose > 0) {
+        const shares = position.quantity;
+        const avgPrice = position.averagePrice;
+        const value = shares * priceClose;
 
-          portfolioValue += value;
-          portfolioPL += profitLoss;
+        let profitLoss = 0;
+        if (position.direction === 'short') {
+          // Short position: profit when avgPrice > priceClose (sold high, buying low)
+          profitLoss = (avgPrice - priceClose) * shares;
         } else {
-          console.warn(`Skipping ${position.ticker} for ${monthKey} - no price data`);
+          // Long position: profit when priceClose > avgPrice (bought low, selling high)
+          profitLoss = (priceClose - avgPrice) * shares;
         }
+
+        monthlyAssets.push({
+          asset: position.symbol,
+          id_asset: position.key,
+          asset_type: position.assetType,
+          shares: shares,
+          avg_price: avgPrice,
+          price_close: priceClose,
+          value: value,
+          profit_loss: profitLoss,
+          estimated: estimated || undefined,
+        });
+
+        portfolioValue += value;
+        marketValue += position.direction === 'short' ? -value : value;
+        portfolioPL += profitLoss;
+      } else {
+        console.warn(`Skipping ${position.symbol} for ${monthKey} - no price data`);
       }
     }
 
-    if (monthlyAssets.length > 0) {
+    // Dates with open positions but no usable price are left out rather than plotted as flat
+    if (monthlyAssets.length > 0 || openPositions.length === 0) {
       // Log monthly calculation details
       dataLogger.logMonthlyCalculation(monthKey, {
         openPositions: openPositions.length,
@@ -809,16 +881,22 @@ export async function calculateMonthlyPortfolioHistory(
       });
 
       history.push({
-        month: monthKey,
+        month: date.substring(0, 7),
+        date,
         assets: monthlyAssets,
         portfolio_value: portfolioValue,
+        market_value: marketValue,
+        cash_balance: getCashBalanceAt(cashLedger, timestamp),
+        net_deposits: getNetDepositsAt(cashLedger, timestamp),
         portfolio_pl: portfolioPL,
+        realized_pl: getRealizedPnLAt(ledger, timestamp),
+        estimated: monthlyAssets.some(asset => asset.estimated) || undefined,
       });
     }
   }
 
   return {
-    portfolio: TARGET_PORTFOLIO_ID,
+    portfolio: portfolioId,
     history: history,
   };
 }
@@ -826,8 +904,8 @@ export async function calculateMonthlyPortfolioHistory(
 export function parseFirebaseJson(
   transactionPortfolioJson: FirebaseTransaction[],
   closedTransactionsJson: FirebaseTransaction[],
+  portfolioId: string,
 ): Trade[] {
-  const TARGET_PORTFOLIO_ID = 'Kq0kpiyAuukdS2l4uvDb';
   const trades: Trade[] = [];
 
   // Combine both arrays
@@ -835,9 +913,7 @@ export function parseFirebaseJson(
 
   // Filter by portfolio ID and convert to Trade format
   for (const transaction of allTransactions) {
-    const portfolioId = getPortfolioId(transaction.id_portfolio);
-
-    if (portfolioId !== TARGET_PORTFOLIO_ID) {
+    if (!belongsToPortfolio(transaction, portfolioId)) {
       continue;
     }
 
@@ -861,15 +937,21 @@ export function parseFirebaseJson(
       price: transaction.price,
       side: transaction.operation as 'Compra' | 'Cierre' | 'Venta',
       commission: 0, // Commission is always 0 per requirements
+      portfolioId: getPortfolioId(transaction.id_portfolio),
+      assetId: getAssetId(transaction.id_asset) || undefined,
+      assetType: transaction.type,
+      allocation: transaction.allocation,
     });
   }
 
-  // Sort by timestamp (oldest first)
-  trades.sort((a, b) => {
+  return sortTradesChronologically(trades);
+}
+
+// Sort by timestamp (oldest first)
+export function sortTradesChronologically(trades: Trade[]): Trade[] {
+  return trades.sort((a, b) => {
     const dateA = new Date(`${a.date} ${a.time}`);
     const dateB = new Date(`${b.date} ${b.time}`);
     return dateA.getTime() - dateB.getTime();
   });
-
-  return trades;
 }
@@ -1,37 +1,149 @@
-import { useEffect, useState } from 'react';
-import { Trade, CumulativePnLPoint } from '@/types/trade';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import {
+  Trade,
+  CumulativePnLPoint,
+  CashMovement,
+  CostBasisMethod,
+  MissingPricePolicy,
+  OutlierPolicy,
+  ReturnMethod,
+  ValuationResolution,
+} from '@/types/trade';
+import {
+  ALL_PORTFOLIOS,
   calculateCumulativePnL,
   calculateMarkToMarketCumulativePnL,
   calculateStats,
   calculateMonthlyPerformance,
+  calculateOpenPositions,
+  calculateRoundTrips,
   calculateTotalInvested,
+  discoverPortfolios,
+  fetchBenchmarkPrices,
+  fetchLatestPrices,
+  formatPortfolioLabel,
   parseFirebaseJson,
+  sortTradesChronologically,
+  FirebaseTransaction,
+  PortfolioSummary,
 } from '@/lib/tradeCalculations';
 import { CumulativePnLChart } from '@/components/portfolio/CumulativePnLChart';
 import { StatsGrid } from '@/components/portfolio/StatsGrid';
 import { MonthlyCharts } from '@/components/portfolio/MonthlyCharts';
 import { TradesTable } from '@/components/portfolio/TradesTable';
+import { OpenPositionsTable } from '@/components/portfolio/OpenPositionsTable';
+import { ClosedPositionsTable } from '@/components/portfolio/ClosedPositionsTable';
+import { AllocationPanel } from '@/components/portfolio/AllocationPanel';
+import { AttributionChart } from '@/components/portfolio/AttributionChart';
 import { AddTradeDialog } from '@/components/portfolio/AddTradeDialog';
-import { TrendingUp } from 'lucide-react';
+import { CsvImportDialog } from '@/components/portfolio/CsvImportDialog';
+import { IbkrImportDialog } from '@/components/portfolio/IbkrImportDialog';
+import { ValidationReportPanel } from '@/components/portfolio/ValidationReportPanel';
+import { PriceOverridesDialog } from '@/components/portfolio/PriceOverridesDialog';
+import { CashLedgerPanel } from '@/components/portfolio/CashLedgerPanel';
+import { DrawdownPanel } from '@/components/portfolio/DrawdownPanel';
+import { OutliersPanel } from '@/components/portfolio/OutliersPanel';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { DatabaseZap, Loader2, TrendingUp } from 'lucide-react';
+import { toast } from 'sonner';
 import { dataLogger } from '@/lib/dataLogger';
+import { ValidationReport, validateFirebaseDump } from '@/lib/firebaseSchema';
+import { COST_BASIS_METHODS } from '@/lib/lotEngine';
+import { calculateDrawdowns } from '@/lib/drawdown';
+import { getEntryAllocations } from '@/lib/allocation';
+import {
+  BENCHMARKS,
+  BenchmarkPrices,
+  buildBenchmarkCurves,
+  loadSelectedBenchmarks,
+  saveSelectedBenchmarks,
+} from '@/lib/benchmarks';
+import {
+  buildCashLedger,
+  getCashMovementsForPortfolio,
+  loadCashMovements,
+  saveCashMovements,
+  summarizeCash,
+} from '@/lib/cashLedger';
+import { MISSING_PRICE_POLICIES } from '@/lib/missingPrices';
+import {
+  findOutliers,
+  loadIncludedOutliers,
+  loadOutlierPolicy,
+  saveIncludedOutliers,
+  saveOutlierPolicy,
+} from '@/lib/outliers';
+import { PositionLedger, buildPositionLedger } from '@/lib/positionLedger';
+import { clearPriceCache } from '@/lib/priceCache';
+import { PriceMap } from '@/lib/priceProviders';
+import { calculatePortfolioReturns } from '@/lib/returns';
+import { calculateRiskStats } from '@/lib/riskMetrics';
+import { PriceOverride, loadPriceOverrides, savePriceOverrides } from '@/lib/priceOverrides';
+import {
+  assignImportedTrades,
+  getImportedTradesForPortfolio,
+  loadImportedTrades,
+  reconcileImportedTrades,
+  saveImportedTrades,
+} from '@/lib/importedTrades';
+
+const SELECTED_PORTFOLIO_KEY = 'portfolio-selected-id';
+const COST_BASIS_METHOD_KEY = 'portfolio-cost-basis-method';
+const MISSING_PRICE_POLICY_KEY = 'portfolio-missing-price-policy';
+const VALUATION_RESOLUTION_KEY = 'portfolio-valuation-resolution';
+const RETURN_METHOD_KEY = 'portfolio-return-method';
+const RISK_FREE_RATE_KEY = 'portfolio-risk-free-rate';
 
 const Index = () => {
-  const [trades, setTrades] = useState<Trade[]>([]);
+  const [rawData, setRawData] = useState<{
+    transactionPortfolio: FirebaseTransaction[];
+    closedTransactions: FirebaseTransaction[];
+  } | null>(null);
+  const [validationReport, setValidationReport] = useState<ValidationReport>({ accepted: 0, rejected: [] });
+  const [portfolios, setPortfolios] = useState<PortfolioSummary[]>([]);
+  const [selectedPortfolio, setSelectedPortfolio] = useState<string>('');
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>(
+    () => (localStorage.getItem(COST_BASIS_METHOD_KEY) as CostBasisMethod) || 'AVERAGE',
+  );
+  const [missingPricePolicy, setMissingPricePolicy] = useState<MissingPricePolicy>(
+    () => (localStorage.getItem(MISSING_PRICE_POLICY_KEY) as MissingPricePolicy) || 'carry-forward',
+  );
+  const [resolution, setResolution] = useState<ValuationResolution>(
+    () => (localStorage.getItem(VALUATION_RESOLUTION_KEY) as ValuationResolution) || 'monthly',
+  );
+  const [returnMethod, setReturnMethod] = useState<ReturnMethod>(
+    () => (localStorage.getItem(RETURN_METHOD_KEY) as ReturnMethod) || 'twr',
+  );
+  // Annual rate as a fraction, used by the Sharpe and Sortino ratios
+  const [riskFreeRate, setRiskFreeRate] = useState<number>(() => Number(localStorage.getItem(RISK_FREE_RATE_KEY)) || 0);
+  const [selectedBenchmarks, setSelectedBenchmarks] = useState<string[]>(loadSelectedBenchmarks);
+  const [benchmarkPrices, setBenchmarkPrices] = useState<BenchmarkPrices>({});
+  const [latestPrices, setLatestPrices] = useState<PriceMap>({});
+  const [loadingLatestPrices, setLoadingLatestPrices] = useState(false);
+  const [outlierPolicy, setOutlierPolicy] = useState<OutlierPolicy>(loadOutlierPolicy);
+  const [includedOutliers, setIncludedOutliers] = useState<string[]>(loadIncludedOutliers);
+  const [priceOverrides, setPriceOverrides] = useState<PriceOverride[]>(loadPriceOverrides);
+  const [importedTrades, setImportedTrades] = useState<Trade[]>(loadImportedTrades);
+  const [cashMovements, setCashMovements] = useState<CashMovement[]>(loadCashMovements);
+  const [ledger, setLedger] = useState<PositionLedger>(() => buildPositionLedger([]));
   const [cumulativePnLData, setCumulativePnLData] = useState<CumulativePnLPoint[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingMarkToMarket, setLoadingMarkToMarket] = useState(false);
+  // Re-valuation after a cash movement or price override, shown next to the dashboard instead of the full-page loader
+  const [recalculating, setRecalculating] = useState(false);
+  // Inputs of the last run that rebuilds the trades; changes in anything else only re-value the same dashboard
+  const lastTradeInputs = useRef<unknown[]>([]);
   const [progressData, setProgressData] = useState({ current: 0, total: 0, currentMonth: '' });
+  // Bumped after purging the price cache to refetch every month-end price
+  const [priceCacheVersion, setPriceCacheVersion] = useState(0);
 
   useEffect(() => {
-    const loadTrades = async () => {
+    const loadRawData = async () => {
       // Start logging session
       dataLogger.startSession();
 
       try {
-        // Clear localStorage to force fresh load
-        localStorage.removeItem('portfolio-trades');
-
         const [transactionPortfolioResponse, closedTransactionsResponse] = await Promise.all([
           fetch('/transaction_portfolio.json'),
           fetch('/closed_transactions.json'),
@@ -41,30 +153,116 @@ const Index = () => {
           throw new Error('Failed to fetch JSON files');
         }
 
-        const transactionPortfolioData = await transactionPortfolioResponse.json();
-        const closedTransactionsData = await closedTransactionsResponse.json();
+        // Quarantine malformed records before they reach any calculation
+        const transactionPortfolioResult = validateFirebaseDump(
+          await transactionPortfolioResponse.json(),
+          'transaction_portfolio',
+        );
+        const closedTransactionsResult = validateFirebaseDump(
+          await closedTransactionsResponse.json(),
+          'closed_transactions',
+          new Set(transactionPortfolioResult.valid.map(transaction => transaction.id)),
+        );
+        const transactionPortfolioData = transactionPortfolioResult.valid;
+        const closedTransactionsData = closedTransactionsResult.valid;
+        const rejectedRecords = [...transactionPortfolioResult.rejected, ...closedTransactionsResult.rejected];
+
+        for (const record of rejectedRecords) {
+          dataLogger.logError(record.reasons.join('; '), `validation ${record.source}[${record.index}]`);
+        }
+
+        setValidationReport({
+          accepted: transactionPortfolioData.length + closedTransactionsData.length,
+          rejected: rejectedRecords,
+        });
 
         // Log raw data
         dataLogger.logRawData(transactionPortfolioData, closedTransactionsData);
 
-        const parsedTrades = parseFirebaseJson(transactionPortfolioData, closedTransactionsData);
+        const discoveredPortfolios = discoverPortfolios(transactionPortfolioData, closedTransactionsData);
+        const storedPortfolio = localStorage.getItem(SELECTED_PORTFOLIO_KEY);
+        const isKnownPortfolio =
+          storedPortfolio === ALL_PORTFOLIOS || discoveredPortfolios.some(p => p.id === storedPortfolio);
+
+        setPortfolios(discoveredPortfolios);
+        setSelectedPortfolio(isKnownPortfolio ? storedPortfolio : discoveredPortfolios[0]?.id || ALL_PORTFOLIOS);
+        setRawData({ transactionPortfolio: transactionPortfolioData, closedTransactions: closedTransactionsData });
+      } catch (error) {
+        console.error('Error loading trades:', error);
+        dataLogger.logError(String(error), 'loadTrades');
+        setLoading(false);
+      }
+    };
+
+    loadRawData();
+  }, []);
+
+  useEffect(() => {
+    if (!rawData || !selectedPortfolio) {
+      return;
+    }
+
+    let cancelled = false;
+    const tradeInputs = [
+      rawData,
+      selectedPortfolio,
+      costBasisMethod,
+      resolution,
+      missingPricePolicy,
+      importedTrades,
+      priceCacheVersion,
+    ];
+    const tradesChanged = tradeInputs.some((input, index) => input !== lastTradeInputs.current[index]);
+    lastTradeInputs.current = tradeInputs;
+
+    const loadTrades = async () => {
+      if (tradesChanged) {
+        setLoading(true);
+      } else {
+        setRecalculating(true);
+      }
+
+      try {
+        // Clear localStorage to force fresh load
+        localStorage.removeItem('portfolio-trades');
+
+        const firestoreTrades = parseFirebaseJson(
+          rawData.transactionPortfolio,
+          rawData.closedTransactions,
+          selectedPortfolio,
+        );
+        const parsedTrades = sortTradesChronologically([
+          ...firestoreTrades,
+          ...reconcileImportedTrades(getImportedTradesForPortfolio(importedTrades, selectedPortfolio), firestoreTrades),
+        ]);
 
         // Log parsed trades
         dataLogger.logParsedTrades(parsedTrades);
 
-        setTrades(parsedTrades);
+        // Every calculator below reads from this single replay of the trades
+        const parsedLedger = buildPositionLedger(parsedTrades, costBasisMethod);
+        setLedger(parsedLedger);
         localStorage.setItem('portfolio-trades', JSON.stringify(parsedTrades));
 
         // Calculate mark-to-market cumulative P&L
         setLoadingMarkToMarket(true);
         try {
           const markToMarketData = await calculateMarkToMarketCumulativePnL(
-            transactionPortfolioData,
-            closedTransactionsData,
+            parsedLedger,
+            buildCashLedger(parsedLedger, getCashMovementsForPortfolio(cashMovements, selectedPortfolio)),
+            selectedPortfolio,
+            { resolution, missingPricePolicy, priceOverrides },
             (current, total, currentMonth) => {
-              setProgressData({ current, total, currentMonth });
+              if (!cancelled) {
+                setProgressData({ current, total, currentMonth });
+              }
             },
           );
+
+          if (cancelled) {
+            return;
+          }
+
           setCumulativePnLData(markToMarketData);
 
           // Log cumulative P&L data
@@ -73,31 +271,225 @@ const Index = () => {
           console.error('Error calculating mark-to-market data:', error);
           dataLogger.logError(String(error), 'calculateMarkToMarketCumulativePnL');
           // Fallback to traditional calculation
-          const fallbackData = calculateCumulativePnL(parsedTrades);
+          const fallbackData = calculateCumulativePnL(parsedLedger);
           setCumulativePnLData(fallbackData);
           dataLogger.logCumulativePnL(fallbackData);
         } finally {
-          setLoadingMarkToMarket(false);
-          setProgressData({ current: 0, total: 0, currentMonth: '' });
+          if (!cancelled) {
+            setLoadingMarkToMarket(false);
+            setProgressData({ current: 0, total: 0, currentMonth: '' });
+          }
         }
       } catch (error) {
         console.error('Error loading trades:', error);
         dataLogger.logError(String(error), 'loadTrades');
       } finally {
-        setLoading(false);
+        if (!cancelled) {
+          setLoading(false);
+          setRecalculating(false);
 
-        // Finalize logging (sin generar archivo automáticamente)
-        dataLogger.finalizeSummary();
-        // await dataLogger.generateLogFile(); // PAUSADO: Descarga automática deshabilitada
+          // Finalize logging (sin generar archivo automáticamente)
+          dataLogger.finalizeSummary();
+          // await dataLogger.generateLogFile(); // PAUSADO: Descarga automática deshabilitada
+        }
       }
     };
 
     loadTrades();
-  }, []);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    rawData,
+    selectedPortfolio,
+    costBasisMethod,
+    resolution,
+    missingPricePolicy,
+    priceOverrides,
+    importedTrades,
+    cashMovements,
+    priceCacheVersion,
+  ]);
+
+  // Benchmark closes follow the valuation dates of the equity curve and load after it, without blocking the page
+  useEffect(() => {
+    const benchmarks = BENCHMARKS.filter(benchmark => selectedBenchmarks.includes(benchmark.symbol));
+    // Closes of the previous curve never line up with the new one
+    setBenchmarkPrices({});
+    if (benchmarks.length === 0 || cumulativePnLData.length === 0) {
+      return;
+    }
+
+    let cancelled = false;
+
+    fetchBenchmarkPrices(benchmarks, cumulativePnLData, priceOverrides)
+      .then(prices => {
+        if (!cancelled) {
+          setBenchmarkPrices(prices);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading benchmark prices:', error);
+        dataLogger.logError(String(error), 'fetchBenchmarkPrices');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cumulativePnLData, selectedBenchmarks, priceOverrides]);
+
+  // Latest closes of the open positions, loaded apart from the equity curve so the table does not wait for it
+  useEffect(() => {
+    let cancelled = false;
+    setLoadingLatestPrices(true);
+
+    fetchLatestPrices(ledger, priceOverrides, Date.now())
+      .then(prices => {
+        if (!cancelled) {
+          setLatestPrices(prices);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading latest prices:', error);
+        dataLogger.logError(String(error), 'fetchLatestPrices');
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoadingLatestPrices(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ledger, priceOverrides, priceCacheVersion]);
+
+  const benchmarkCurves = useMemo(
+    () => buildBenchmarkCurves(cumulativePnLData, benchmarkPrices, riskFreeRate),
+    [cumulativePnLData, benchmarkPrices, riskFreeRate],
+  );
+
+  // Every pass below walks the whole ledger or equity curve, so they only rerun when their inputs change
+  const outlierReport = useMemo(
+    () => findOutliers(ledger, outlierPolicy, cumulativePnLData, includedOutliers),
+    [ledger, outlierPolicy, cumulativePnLData, includedOutliers],
+  );
+  const stats = useMemo(() => calculateStats(ledger, outlierReport.excludedTradeIds), [ledger, outlierReport]);
+  const monthlyPerformance = useMemo(
+    () => calculateMonthlyPerformance(ledger, outlierReport.excludedTradeIds),
+    [ledger, outlierReport],
+  );
+  const openPositions = useMemo(() => calculateOpenPositions(ledger, latestPrices, Date.now()), [ledger, latestPrices]);
+  const entryAllocations = useMemo(() => getEntryAllocations(ledger, Date.now()), [ledger]);
+  const roundTrips = useMemo(() => calculateRoundTrips(ledger), [ledger]);
+  const totalInvested = useMemo(() => calculateTotalInvested(ledger.trades), [ledger]);
+  const portfolioReturns = useMemo(() => calculatePortfolioReturns(cumulativePnLData), [cumulativePnLData]);
+  const drawdownAnalysis = useMemo(() => calculateDrawdowns(cumulativePnLData), [cumulativePnLData]);
+  const riskStats = useMemo(
+    () => calculateRiskStats(cumulativePnLData, riskFreeRate),
+    [cumulativePnLData, riskFreeRate],
+  );
+  const portfolioCashMovements = useMemo(
+    () => getCashMovementsForPortfolio(cashMovements, selectedPortfolio),
+    [cashMovements, selectedPortfolio],
+  );
+  const cashSummary = useMemo(
+    () => summarizeCash(buildCashLedger(ledger, portfolioCashMovements), ledger, Date.now()),
+    [ledger, portfolioCashMovements],
+  );
+
+  const handlePortfolioChange = (portfolioId: string) => {
+    localStorage.setItem(SELECTED_PORTFOLIO_KEY, portfolioId);
+    setSelectedPortfolio(portfolioId);
+  };
+
+  const handleCostBasisMethodChange = (method: string) => {
+    localStorage.setItem(COST_BASIS_METHOD_KEY, method);
+    setCostBasisMethod(method as CostBasisMethod);
+  };
+
+  const handleMissingPricePolicyChange = (policy: string) => {
+    localStorage.setItem(MISSING_PRICE_POLICY_KEY, policy);
+    setMissingPricePolicy(policy as MissingPricePolicy);
+  };
+
+  const handleResolutionChange = (value: ValuationResolution) => {
+    localStorage.setItem(VALUATION_RESOLUTION_KEY, value);
+    setResolution(value);
+  };
+
+  const handleReturnMethodChange = (method: ReturnMethod) => {
+    localStorage.setItem(RETURN_METHOD_KEY, method);
+    setReturnMethod(method);
+  };
+
+  const handleSelectedBenchmarksChange = (symbols: string[]) => {
+    setSelectedBenchmarks(symbols);
+    saveSelectedBenchmarks(symbols);
+  };
+
+  const handleRiskFreeRateChange = (rate: number) => {
+    localStorage.setItem(RISK_FREE_RATE_KEY, String(rate));
+    setRiskFreeRate(rate);
+  };
+
+  const handleOutlierPolicyChange = (policy: OutlierPolicy) => {
+    setOutlierPolicy(policy);
+    saveOutlierPolicy(policy);
+  };
+
+  const handleOutlierInclusionChange = (tradeId: string, included: boolean) => {
+    const tradeIds = included ? [...includedOutliers, tradeId] : includedOutliers.filter(id => id !== tradeId);
+    setIncludedOutliers(tradeIds);
+    saveIncludedOutliers(tradeIds);
+  };
+
+  const handlePriceOverridesChange = (overrides: PriceOverride[]) => {
+    setPriceOverrides(overrides);
+    savePriceOverrides(overrides);
+  };
+
+  const updateCashMovements = (movements: CashMovement[]) => {
+    setCashMovements(movements);
+    saveCashMovements(movements);
+  };
+
+  const handleAddCashMovement = (movement: CashMovement) => {
+    updateCashMovements([...cashMovements, movement]);
+  };
+
+  const handleRemoveCashMovement = (movement: CashMovement) => {
+    updateCashMovements(cashMovements.filter(m => m.id !== movement.id));
+  };
+
+  const handlePurgePriceCache = async () => {
+    try {
+      await clearPriceCache();
+      toast.success('Caché de precios eliminada');
+      setPriceCacheVersion(version => version + 1);
+    } catch (error) {
+      console.error('Error clearing price cache:', error);
+      toast.error('No se pudo limpiar la caché de precios');
+    }
+  };
+
+  const handleImportTrades = (newTrades: Trade[], portfolioId: string) => {
+    // Re-importing the same broker report must not duplicate executions
+    const knownIds = new Set(importedTrades.map(t => t.id));
+    const assignedTrades = assignImportedTrades(
+      newTrades.filter(t => !knownIds.has(t.id)),
+      portfolioId,
+    );
+    const updatedImports = [...importedTrades, ...assignedTrades];
+    // The ledger and the mark-to-market curve are rebuilt from the updated imports
+    setImportedTrades(updatedImports);
+    saveImportedTrades(updatedImports);
+  };
 
   const handleAddTrade = (newTrade: Trade) => {
-    const updatedTrades = [...trades, newTrade];
-    setTrades(updatedTrades);
+    const updatedTrades = sortTradesChronologically([...ledger.trades, newTrade]);
+    setLedger(buildPositionLedger(updatedTrades, costBasisMethod));
     localStorage.setItem('portfolio-trades', JSON.stringify(updatedTrades));
   };
 
@@ -142,9 +534,6 @@ const Index = () => {
     );
   }
 
-  const stats = calculateStats(trades);
-  const monthlyPerformance = calculateMonthlyPerformance(trades);
-  const totalInvested = calculateTotalInvested(trades);
   const currentPnL = cumulativePnLData.length > 0 ? cumulativePnLData[cumulativePnLData.length - 1].value : 0;
 
   // Log all calculated statistics to dataLogger
@@ -192,12 +581,75 @@ const Index = () => {
               </div>
             </div>
             <div className="flex items-center gap-3">
+              {recalculating && (
+                <span className="flex items-center gap-2 text-xs text-muted-foreground whitespace-nowrap">
+                  <Loader2 className="h-4 w-4 animate-spin text-success" />
+                  Recalculando
+                  {progressData.total > 0 && ` ${progressData.current}/${progressData.total}`}
+                </span>
+              )}
+              <Select value={selectedPortfolio} onValueChange={handlePortfolioChange}>
+                <SelectTrigger className="w-72 bg-secondary/50 border-border/50">
+                  <SelectValue placeholder="Seleccionar portafolio" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_PORTFOLIOS}>Todos los portafolios</SelectItem>
+                  {portfolios.map(portfolio => (
+                    <SelectItem key={portfolio.id} value={portfolio.id}>
+                      {formatPortfolioLabel(portfolio)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={costBasisMethod} onValueChange={handleCostBasisMethodChange}>
+                <SelectTrigger className="w-40 bg-secondary/50 border-border/50" title="Método de costo base">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COST_BASIS_METHODS.map(method => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={missingPricePolicy} onValueChange={handleMissingPricePolicyChange}>
+                <SelectTrigger className="w-52 bg-secondary/50 border-border/50" title="Precios faltantes">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MISSING_PRICE_POLICIES.map(policy => (
+                    <SelectItem key={policy.value} value={policy.value}>
+                      {policy.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <button
                 onClick={() => dataLogger.generateLogFile()}
                 className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors duration-200 text-sm font-medium shadow-lg"
                 title="Descargar log de cálculos (solo manual)">
                 📊 Descargar Log
               </button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={handlePurgePriceCache}
+                className="border-border/50 bg-secondary/50"
+                title="Limpiar caché de precios históricos">
+                <DatabaseZap className="h-4 w-4" />
+              </Button>
+              <CsvImportDialog
+                portfolios={portfolios}
+                selectedPortfolio={selectedPortfolio}
+                onImportTrades={handleImportTrades}
+              />
+              <IbkrImportDialog
+                portfolios={portfolios}
+                selectedPortfolio={selectedPortfolio}
+                onImportTrades={handleImportTrades}
+              />
+              <PriceOverridesDialog overrides={priceOverrides} onChange={handlePriceOverridesChange} />
               {/* <AddTradeDialog onAddTrade={handleAddTrade} /> */}
             </div>
           </div>
@@ -206,24 +658,91 @@ const Index = () => {
 
       {/* Main Content with staggered animations */}
       <main className="container mx-auto px-4 py-8 space-y-8">
+        {/* Quarantined records from the Firestore dumps */}
+        {validationReport.rejected.length > 0 && (
+          <div className="fade-in">
+            <ValidationReportPanel report={validationReport} />
+          </div>
+        )}
+
         {/* Cumulative P&L Chart - Hero Section */}
         <div className="fade-in" style={{ animationDelay: '100ms' }}>
-          <CumulativePnLChart data={cumulativePnLData} currentPnL={currentPnL} totalInvested={totalInvested} />
+          <CumulativePnLChart
+            data={cumulativePnLData}
+            currentPnL={currentPnL}
+            resolution={resolution}
+            onResolutionChange={handleResolutionChange}
+            returnMethod={returnMethod}
+            onReturnMethodChange={handleReturnMethodChange}
+            benchmarks={benchmarkCurves}
+            selectedBenchmarks={selectedBenchmarks}
+            onSelectedBenchmarksChange={handleSelectedBenchmarksChange}
+          />
+        </div>
+
+        {/* Underwater chart of the same equity curve */}
+        <div className="fade-in" style={{ animationDelay: '150ms' }}>
+          <DrawdownPanel analysis={drawdownAnalysis} />
         </div>
 
         {/* Stats Grid */}
         <div className="fade-in" style={{ animationDelay: '200ms' }}>
-          <StatsGrid stats={correctedStats} />
+          <StatsGrid
+            stats={correctedStats}
+            returns={portfolioReturns}
+            returnMethod={returnMethod}
+            onReturnMethodChange={handleReturnMethodChange}
+            riskStats={riskStats}
+            onRiskFreeRateChange={handleRiskFreeRateChange}
+          />
+        </div>
+
+        {/* Deposits, withdrawals and cash balance */}
+        <div className="fade-in" style={{ animationDelay: '250ms' }}>
+          <CashLedgerPanel
+            portfolios={portfolios}
+            selectedPortfolio={selectedPortfolio}
+            movements={portfolioCashMovements}
+            summary={cashSummary}
+            onAdd={handleAddCashMovement}
+            onRemove={handleRemoveCashMovement}
+          />
         </div>
 
         {/* Monthly Charts */}
-        <div className="fade-in" style={{ animationDelay: '300ms' }}>
+        <div className="fade-in space-y-6" style={{ animationDelay: '300ms' }}>
           <MonthlyCharts data={monthlyPerformance} />
+          <AttributionChart points={cumulativePnLData} trades={ledger.trades} />
+        </div>
+
+        {/* Closing trades left out of the stats and monthly performance */}
+        <div className="fade-in" style={{ animationDelay: '350ms' }}>
+          <OutliersPanel
+            policy={outlierPolicy}
+            onPolicyChange={handleOutlierPolicyChange}
+            flagged={outlierReport.flagged}
+            onInclusionChange={handleOutlierInclusionChange}
+          />
+        </div>
+
+        {/* Current holdings at the latest close */}
+        <div className="fade-in" style={{ animationDelay: '375ms' }}>
+          <OpenPositionsTable positions={openPositions} loadingPrices={loadingLatestPrices} />
+        </div>
+
+        {/* Exposure of the open positions by asset type or ticker, now and over time */}
+        <div className="fade-in" style={{ animationDelay: '380ms' }}>
+          <AllocationPanel positions={openPositions} entryAllocations={entryAllocations} points={cumulativePnLData} />
+        </div>
+
+        {/* Round trips, one row per closed position */}
+        <div className="fade-in" style={{ animationDelay: '390ms' }}>
+          <ClosedPositionsTable roundTrips={roundTrips} />
         </div>
 
         {/* Trades Table */}
         <div className="fade-in" style={{ animationDelay: '400ms' }}>
-          <TradesTable trades={trades} />
+          <TradesTable trades={ledger.trades} />
         </div>
       </main>
     </div>
@@ -8,6 +8,14 @@ export interface Trade {
   side: 'Compra' | 'Cierre' | 'Venta';
   commission: number;
   pnl?: number;
+  portfolioId?: string;
+  assetId?: string;
+  assetType?: string;
+  // % of the portfolio assigned to the trade when it was placed
+  allocation?: number;
+  currency?: string;
+  closedLots?: LotClosure[];
+  overClosedQuantity?: number;
 }
 
 export interface TradeStats {
@@ -21,11 +29,52 @@ export interface TradeStats {
   largestWin: number;
   largestLoss: number;
   averageTradePnL: number;
+  // Gross profit over gross loss; Infinity when there are wins and no losses
+  profitFactor: number;
+  expectancy: number;
+  // Average win over the absolute average loss
+  payoffRatio: number;
+  // Fraction of capital per position the Kelly criterion suggests (negative means no edge)
+  kellyFraction: number;
+  maxConsecutiveWins: number;
+  maxConsecutiveLosses: number;
+}
+
+// Risk-adjusted performance of the equity curve; rates are annualized fractions (0.1 = 10%)
+export interface PortfolioRiskStats {
+  annualizedReturn: number;
+  volatility: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  calmarRatio: number;
+  riskFreeRate: number;
+  // Valuation periods per year the returns were measured at (about 12 monthly, 52 weekly, 260 daily)
+  periodsPerYear: number;
 }
 
 export interface CumulativePnLPoint {
   date: string;
   value: number;
+  // Breakdown of value: realized P&L to date and unrealized P&L of the open positions
+  realized?: number;
+  unrealized?: number;
+  // Cash balance plus the market value of the open positions, and the capital put in to reach it (see cashLedger)
+  equity?: number;
+  netDeposits?: number;
+  // Gross market value of the open positions (longs plus shorts)
+  exposure?: number;
+  // Some open position was valued with an estimated price (see MissingPricePolicy)
+  estimated?: boolean;
+  // Open positions valued at this point
+  holdings?: HoldingSnapshot[];
+}
+
+export interface HoldingSnapshot {
+  symbol: string;
+  assetType?: string;
+  // Gross market value (shorts count positive) and unrealized P&L of the position
+  marketValue: number;
+  unrealizedPnL: number;
 }
 
 export interface MonthlyPerformance {
@@ -33,3 +82,65 @@ export interface MonthlyPerformance {
   trades: number;
   pnl: number;
 }
+
+// Capital flow of the cash ledger; 'initial' is the starting balance, placed before every trade
+export interface CashMovement {
+  id: string;
+  date: string;
+  type: 'initial' | 'deposit' | 'withdrawal';
+  // Always positive, the type gives the direction
+  amount: number;
+  note?: string;
+  portfolioId?: string;
+}
+
+export interface TradeImportRow {
+  rowNumber: number;
+  trade?: Trade;
+  errors: string[];
+}
+
+export type CostBasisMethod = 'FIFO' | 'LIFO' | 'HIFO' | 'AVERAGE';
+
+// How month-end valuations handle a ticker the price provider has no close for
+export type MissingPricePolicy = 'skip' | 'carry-forward' | 'interpolate' | 'cost-basis';
+
+// Spacing of the mark-to-market valuations of the equity curve
+export type ValuationResolution = 'monthly' | 'weekly' | 'daily';
+
+// Time-weighted return or money-weighted return (XIRR)
+export type ReturnMethod = 'twr' | 'mwr';
+
+// Rule that keeps closing trades with an abnormal P&L out of the trading stats (see outliers)
+export type OutlierMethod = 'absolute' | 'equity-percent' | 'zscore' | 'off';
+
+export interface OutlierPolicy {
+  method: OutlierMethod;
+  // USD for 'absolute', % of the equity for 'equity-percent', standard deviations for 'zscore'
+  threshold: number;
+}
+
+export type LotDirection = 'long' | 'short';
+
+export interface TaxLot {
+  id: string;
+  tradeId: string;
+  direction: LotDirection;
+  quantity: number;
+  originalQuantity: number;
+  price: number;
+  openedAt: number;
+}
+
+export interface LotClosure {
+  lotId: string;
+  openTradeId: string;
+  closeTradeId: string;
+  direction: LotDirection;
+  quantity: number;
+  openPrice: number;
+  closePrice: number;
+  openedAt: number;
+  closedAt: number;
+  pnl: number;
+}
@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Historical price source: 'bitfin' (default) or 'file'
+  readonly VITE_PRICE_PROVIDER?: string;
+  // Base URL of a server implementing /api/tickers/historical-prices/date
+  readonly VITE_PRICE_API_URL?: string;
+  // JSON or CSV price file used by the 'file' provider
+  readonly VITE_PRICE_FILE_URL?: string;
+  // Maximum number of concurrent month-end price requests (4 by default)
+  readonly VITE_PRICE_CONCURRENCY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}